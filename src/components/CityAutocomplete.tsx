@@ -1,19 +1,30 @@
 import { useState, useRef, useEffect } from 'react';
-import { MapPin, Loader2 } from 'lucide-react';
+import { MapPin, Loader2, Star, History } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import { useSavedTrips } from '@/hooks/use-saved-trips';
+import type { PlaceInput } from '@/lib/apiUtils';
+import { isFavouritePlace, toggleFavouritePlace, type SavedPlace } from '@/lib/savedTrips';
 
 interface Suggestion {
   display_name: string;
   place_id: string;
-  coordinates: [number, number];
+  coordinates: [number, number]; // GeoJSON order: [lon, lat]
 }
 
+// One row in the dropdown: a stored place (favourite or recent search) or a Photon suggestion
+type Option =
+  | { kind: 'favourite' | 'recent'; key: string; place: SavedPlace }
+  | { kind: 'suggestion'; key: string; suggestion: Suggestion };
+
+const MAX_SAVED_OPTIONS = 5;
+
 interface CityAutocompleteProps {
-  value: string;
-  onChange: (value: string) => void;
+  value: PlaceInput;
+  onChange: (value: PlaceInput) => void;
   placeholder: string;
   label: string;
   iconColor?: string;
+  action?: React.ReactNode; // Extra control shown at the right edge of the field
 }
 
 export const CityAutocomplete = ({ 
@@ -21,7 +32,8 @@ export const CityAutocomplete = ({
   onChange, 
   placeholder, 
   label,
-  iconColor = 'text-muted-foreground' 
+  iconColor = 'text-muted-foreground',
+  action
 }: CityAutocompleteProps) => {
   const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -29,6 +41,23 @@ export const CityAutocomplete = ({
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const containerRef = useRef<HTMLDivElement>(null);
   const debounceRef = useRef<NodeJS.Timeout>();
+  const { favourites, recents } = useSavedTrips();
+
+  // Stored places matching the text, favourites first; all of them while the field is empty
+  const query = value.name.trim().toLowerCase();
+  const savedOptions: Option[] = [
+    ...favourites.map(place => ({ kind: 'favourite' as const, place })),
+    ...recents
+      .filter(place => !isFavouritePlace(favourites, place))
+      .map(place => ({ kind: 'recent' as const, place }))
+  ]
+    .filter(option => option.place.name.toLowerCase().includes(query) && option.place.name !== value.name)
+    .slice(0, MAX_SAVED_OPTIONS)
+    .map((option, index) => ({ ...option, key: `${option.kind}-${index}` }));
+  const options: Option[] = [
+    ...savedOptions,
+    ...suggestions.map(suggestion => ({ kind: 'suggestion' as const, key: suggestion.place_id, suggestion }))
+  ];
 
   const fetchSuggestions = async (query: string) => {
     if (query.length < 2) {
@@ -66,7 +95,7 @@ export const CityAutocomplete = ({
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
-    onChange(newValue);
+    onChange({ name: newValue, coordinates: null });
     setShowSuggestions(true);
     setHighlightedIndex(-1);
 
@@ -78,24 +107,34 @@ export const CityAutocomplete = ({
     }, 300);
   };
 
-  const handleSelect = (suggestion: Suggestion) => {
-    onChange(suggestion.display_name);
+  const handleSelect = (option: Option) => {
+    // Picked places keep their coordinates, so planning routes to exactly this place
+    // instead of geocoding the name again
+    if (option.kind === 'suggestion') {
+      const [lon, lat] = option.suggestion.coordinates;
+      onChange({
+        name: option.suggestion.display_name,
+        coordinates: { lat, lon, displayName: option.suggestion.display_name }
+      });
+    } else {
+      onChange({ name: option.place.name, coordinates: option.place.coordinates });
+    }
     setSuggestions([]);
     setShowSuggestions(false);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (!showSuggestions || suggestions.length === 0) return;
+    if (!showSuggestions || options.length === 0) return;
 
     if (e.key === 'ArrowDown') {
       e.preventDefault();
-      setHighlightedIndex(prev => Math.min(prev + 1, suggestions.length - 1));
+      setHighlightedIndex(prev => Math.min(prev + 1, options.length - 1));
     } else if (e.key === 'ArrowUp') {
       e.preventDefault();
       setHighlightedIndex(prev => Math.max(prev - 1, 0));
     } else if (e.key === 'Enter' && highlightedIndex >= 0) {
       e.preventDefault();
-      handleSelect(suggestions[highlightedIndex]);
+      handleSelect(options[highlightedIndex]);
     } else if (e.key === 'Escape') {
       setShowSuggestions(false);
     }
@@ -118,33 +157,59 @@ export const CityAutocomplete = ({
           {label}
         </label>
         <Input
-          value={value}
+          value={value.name}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
-          onFocus={() => value.length >= 2 && setShowSuggestions(true)}
+          onFocus={() => setShowSuggestions(true)}
           placeholder={placeholder}
-          className="h-14 border-0 pt-7 pb-2 text-base font-medium focus-visible:ring-0 focus-visible:ring-offset-0"
+          className={`h-14 border-0 pt-7 pb-2 text-base font-medium focus-visible:ring-0 focus-visible:ring-offset-0 ${action ? 'pr-16' : ''}`}
           required
           autoComplete="off"
         />
         {isLoading && (
-          <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+          <Loader2 className={`absolute top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground ${action ? 'right-11' : 'right-3'}`} />
+        )}
+        {action && (
+          <div className="absolute right-1 top-1/2 -translate-y-1/2">
+            {action}
+          </div>
         )}
       </div>
       
-      {showSuggestions && suggestions.length > 0 && (
+      {showSuggestions && options.length > 0 && (
         <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-lg max-h-60 overflow-auto">
-          {suggestions.map((suggestion, index) => (
+          {options.map((option, index) => (
             <li
-              key={suggestion.place_id}
-              onClick={() => handleSelect(suggestion)}
+              key={option.key}
+              onClick={() => handleSelect(option)}
               className={`cursor-pointer px-3 py-2 text-sm hover:bg-accent ${
                 index === highlightedIndex ? 'bg-accent' : ''
               }`}
             >
               <div className="flex items-center gap-2">
-                <MapPin className="h-3 w-3 text-muted-foreground flex-shrink-0" />
-                <span className="truncate">{suggestion.display_name}</span>
+                {option.kind === 'suggestion' ? (
+                  <MapPin className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                ) : option.kind === 'favourite' ? (
+                  <Star className="h-3 w-3 fill-warning text-warning flex-shrink-0" />
+                ) : (
+                  <History className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                )}
+                <span className="truncate">
+                  {option.kind === 'suggestion' ? option.suggestion.display_name : option.place.name}
+                </span>
+                {option.kind !== 'suggestion' && (
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleFavouritePlace(option.place);
+                    }}
+                    className="ml-auto text-muted-foreground hover:text-warning"
+                    aria-label={option.kind === 'favourite' ? 'Remove from favourites' : 'Add to favourites'}
+                  >
+                    <Star className={`h-3 w-3 ${option.kind === 'favourite' ? 'fill-warning text-warning' : ''}`} />
+                  </button>
+                )}
               </div>
             </li>
           ))}
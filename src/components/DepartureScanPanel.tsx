@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Loader2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { rankDepartures, type DepartureCandidate } from '@/lib/departureScan';
+import { getDrivingScoreColor, getDrivingScoreLabel } from '@/lib/drivingScore';
+import { cn } from '@/lib/utils';
+
+interface DepartureScanPanelProps {
+  departureTime: Date;
+  results: DepartureCandidate[] | null;
+  isScanning: boolean;
+  progress: { current: number; total: number };
+  onScan: (windowStart: Date, windowEnd: Date, stepMinutes: number) => void;
+}
+
+const STEP_OPTIONS = [15, 30, 60, 120];
+const RANKED_LIST_SIZE = 5;
+
+const chartConfig = {
+  averageScore: { label: 'Average score', color: 'hsl(var(--primary))' },
+  minScore: { label: 'Worst point', color: 'hsl(var(--warning))' },
+} satisfies ChartConfig;
+
+const formatTime = (date: Date) => {
+  return date.toLocaleTimeString('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// Combine the planned departure's date with an "HH:mm" value from a time input
+const atTimeOfDay = (day: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(day);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+export const DepartureScanPanel = ({
+  departureTime,
+  results,
+  isScanning,
+  progress,
+  onScan,
+}: DepartureScanPanelProps) => {
+  const [windowStart, setWindowStart] = useState('06:00');
+  const [windowEnd, setWindowEnd] = useState('20:00');
+  const [stepMinutes, setStepMinutes] = useState(60);
+
+  const start = atTimeOfDay(departureTime, windowStart);
+  const end = atTimeOfDay(departureTime, windowEnd);
+  const isWindowValid = end.getTime() > start.getTime();
+
+  const ranked = results ? rankDepartures(results) : [];
+  const chartData = (results || []).map(result => ({
+    time: formatTime(result.departureTime),
+    averageScore: result.averageScore,
+    minScore: result.minScore,
+  }));
+
+  return (
+    <div className="mt-6 space-y-4 border-t pt-4">
+      <div>
+        <h3 className="text-sm font-semibold">Best departure</h3>
+        <p className="text-xs text-muted-foreground">
+          Scan a time window to find when your trip has the best driving conditions.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+          From
+          <Input type="time" value={windowStart} onChange={(e) => setWindowStart(e.target.value)} className="h-9 w-28" />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+          To
+          <Input type="time" value={windowEnd} onChange={(e) => setWindowEnd(e.target.value)} className="h-9 w-28" />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+          Every
+          <select
+            value={stepMinutes}
+            onChange={(e) => setStepMinutes(Number(e.target.value))}
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+          >
+            {STEP_OPTIONS.map(option => (
+              <option key={option} value={option}>
+                {option < 60 ? `${option} min` : `${option / 60} h`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button
+          type="button"
+          size="sm"
+          className="h-9"
+          disabled={isScanning || !isWindowValid}
+          onClick={() => onScan(start, end, stepMinutes)}
+        >
+          {isScanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+          Find best departure
+        </Button>
+      </div>
+
+      {isScanning && (
+        <div className="space-y-1">
+          <Progress value={progress.total > 0 ? (progress.current / progress.total) * 100 : 0} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            Checked {progress.current} of {progress.total} departure times
+          </p>
+        </div>
+      )}
+
+      {!isScanning && results && ranked.length === 0 && (
+        <p className="text-sm text-muted-foreground">No forecasts available for this window.</p>
+      )}
+
+      {!isScanning && ranked.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+          <ol className="space-y-1 text-sm">
+            {ranked.slice(0, RANKED_LIST_SIZE).map((candidate, index) => {
+              const colors = getDrivingScoreColor(candidate.averageScore);
+              return (
+                <li
+                  key={candidate.departureTime.getTime()}
+                  className={cn('flex items-center justify-between rounded-md px-2 py-1', index === 0 && 'bg-primary/5')}
+                >
+                  <span className="font-medium">
+                    {index + 1}. {formatTime(candidate.departureTime)}
+                  </span>
+                  <span className={cn('text-xs font-medium', colors.text)}>
+                    {candidate.averageScore} {getDrivingScoreLabel(candidate.averageScore)}
+                    {candidate.minScore !== null && (
+                      <span className="text-muted-foreground"> (worst {candidate.minScore})</span>
+                    )}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+
+          <ChartContainer config={chartConfig} className="h-[200px] w-full">
+            <LineChart data={chartData} margin={{ left: -20, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" tickLine={false} axisLine={false} fontSize={12} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} fontSize={12} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="averageScore" type="monotone" stroke="var(--color-averageScore)" strokeWidth={2} dot={false} connectNulls />
+              <Line dataKey="minScore" type="monotone" stroke="var(--color-minScore)" strokeWidth={2} strokeDasharray="4 4" dot={false} connectNulls />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      )}
+    </div>
+  );
+};
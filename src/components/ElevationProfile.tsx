@@ -0,0 +1,96 @@
+import { Area, AreaChart, CartesianGrid, ReferenceDot, XAxis, YAxis } from 'recharts';
+import { Mountain } from 'lucide-react';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { Waypoint, WeatherData } from '@/lib/apiUtils';
+import type { ElevationPoint } from '@/lib/elevation';
+
+interface ElevationProfileProps {
+  profile: ElevationPoint[];
+  waypoints: Waypoint[];
+  weatherData: Map<number, WeatherData | null>;
+}
+
+const chartConfig = {
+  elevation: { label: 'Elevation (m)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+// Climb summed over the profile, ignoring wiggles smaller than the DEM's noise
+const NOISE_METERS = 5;
+
+const getTotalAscent = (profile: ElevationPoint[]): number => {
+  let ascent = 0;
+  let reference = profile[0]?.elevation ?? 0;
+  profile.forEach(({ elevation }) => {
+    if (elevation > reference + NOISE_METERS) {
+      ascent += elevation - reference;
+      reference = elevation;
+    } else if (elevation < reference - NOISE_METERS) {
+      reference = elevation;
+    }
+  });
+  return ascent;
+};
+
+export const ElevationProfile = ({ profile, waypoints, weatherData }: ElevationProfileProps) => {
+  if (profile.length < 2) return null;
+
+  const highest = profile.reduce((a, b) => (b.elevation > a.elevation ? b : a));
+  const chartData = profile.map(point => ({
+    distanceKm: Math.round(point.distanceKm),
+    elevation: Math.round(point.elevation),
+  }));
+
+  // Waypoints whose forecast was corrected for height, with the corrected temperature
+  const markers = waypoints.flatMap((waypoint, index) => {
+    const weather = weatherData.get(index);
+    return weather?.altitude
+      ? [{ index, distanceKm: waypoint.distanceFromStart, elevation: weather.altitude.elevation, temperature: weather.temperature }]
+      : [];
+  });
+
+  return (
+    <div className="mt-6 space-y-2 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <div className="flex items-center gap-2 text-lg font-semibold">
+          <Mountain className="h-5 w-5 text-primary" />
+          <h2>Elevation Profile</h2>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Highest point {Math.round(highest.elevation)} m at {Math.round(highest.distanceKm)} km · {Math.round(getTotalAscent(profile))} m of climbing
+        </p>
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-[180px] w-full">
+        <AreaChart data={chartData} margin={{ left: -10, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="distanceKm"
+            type="number"
+            domain={[0, 'dataMax']}
+            tickLine={false}
+            axisLine={false}
+            fontSize={12}
+            tickFormatter={(value: number) => `${value} km`}
+          />
+          <YAxis tickLine={false} axisLine={false} fontSize={12} width={50} tickFormatter={(value: number) => `${value} m`} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload[0]?.payload.distanceKm} km`} />} />
+          <Area dataKey="elevation" type="monotone" stroke="var(--color-elevation)" fill="var(--color-elevation)" fillOpacity={0.15} strokeWidth={2} />
+          {markers.map(({ index, distanceKm, elevation, temperature }) => (
+            <ReferenceDot
+              key={index}
+              x={Math.round(distanceKm)}
+              y={Math.round(elevation)}
+              r={3}
+              fill="hsl(var(--background))"
+              stroke="var(--color-elevation)"
+              label={{ value: `${temperature.toFixed(0)}°`, position: 'top', fontSize: 10 }}
+            />
+          ))}
+        </AreaChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground">
+        Waypoint temperatures are corrected for the height of the road (0.65 °C colder per 100 m).
+      </p>
+    </div>
+  );
+};
@@ -1,6 +1,13 @@
 import { Link } from "react-router-dom";
+import { getWeatherProviders } from "@/lib/weatherProviders";
+import { getRoadWeatherClient } from "@/lib/roadWeather";
+import { getIncidentClients } from "@/lib/incidents";
+import { getElevationClient } from "@/lib/elevation";
 
 const Footer = () => {
+  const roadWeatherClient = getRoadWeatherClient();
+  const incidentClients = getIncidentClients();
+  const elevationClient = getElevationClient();
   return (
     <footer className="mt-12 border-t border-border bg-muted/30">
       <div className="max-w-4xl mx-auto px-4 py-8">
@@ -42,23 +49,63 @@ const Footer = () => {
         <div className="text-center text-xs text-muted-foreground space-y-1">
           <p>
             Weather data from{" "}
-            <a
-              href="https://www.smhi.se/"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline hover:text-foreground"
-            >
-              SMHI
-            </a>{" "}
-            &{" "}
-            <a
-              href="https://open-meteo.com/"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline hover:text-foreground"
-            >
-              Open-Meteo
-            </a>{" "}
+            {getWeatherProviders().map((provider, index, providers) => (
+              <span key={provider.id}>
+                <a
+                  href={provider.attribution.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="underline hover:text-foreground"
+                >
+                  {provider.attribution.text}
+                </a>
+                {index < providers.length - 2 ? ", " : index === providers.length - 2 ? " & " : ""}
+              </span>
+            ))}{" "}
+            {roadWeatherClient && (
+              <>
+                • Road weather from{" "}
+                <a
+                  href={roadWeatherClient.attribution.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="underline hover:text-foreground"
+                >
+                  {roadWeatherClient.attribution.text}
+                </a>{" "}
+              </>
+            )}
+            {incidentClients.length > 0 && (
+              <>
+                • Traffic information from{" "}
+                {incidentClients.map((client, index) => (
+                  <span key={client.id}>
+                    <a
+                      href={client.attribution.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline hover:text-foreground"
+                    >
+                      {client.attribution.text}
+                    </a>
+                    {index < incidentClients.length - 1 ? ", " : ""}
+                  </span>
+                ))}{" "}
+              </>
+            )}
+            {elevationClient && (
+              <>
+                • Elevation from{" "}
+                <a
+                  href={elevationClient.attribution.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="underline hover:text-foreground"
+                >
+                  {elevationClient.attribution.text}
+                </a>{" "}
+              </>
+            )}
             • Route data from{" "}
             <a
               href="https://project-osrm.org/"
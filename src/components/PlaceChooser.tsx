@@ -0,0 +1,57 @@
+import { MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { PlaceInput } from '@/lib/apiUtils';
+import type { RankedCandidate } from '@/lib/placeResolver';
+
+interface PlaceChooserProps {
+  place: PlaceInput | null; // Open while a place is waiting for a choice
+  candidates: RankedCandidate[];
+  onChoose: (candidate: RankedCandidate | null) => void; // null = cancel planning
+}
+
+export const PlaceChooser = ({ place, candidates, onChoose }: PlaceChooserProps) => {
+  return (
+    <Dialog open={place !== null} onOpenChange={(open) => !open && onChoose(null)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Did you mean…</DialogTitle>
+          <DialogDescription>
+            Several places match "{place?.name}". Pick the one you want to route to.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-2">
+          {candidates.map((candidate, index) => (
+            <li key={`${candidate.lat},${candidate.lon},${index}`}>
+              <button
+                type="button"
+                onClick={() => onChoose(candidate)}
+                className="flex w-full items-start gap-3 rounded-md border px-3 py-2 text-left text-sm transition-colors hover:bg-accent"
+              >
+                <MapPin className="mt-0.5 h-4 w-4 flex-shrink-0 text-primary" />
+                <span className="flex-1">{candidate.displayName}</span>
+                {candidate.distanceKm !== null && (
+                  <span className="whitespace-nowrap text-xs text-muted-foreground">
+                    {Math.round(candidate.distanceKm)} km away
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onChoose(null)}>
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,108 @@
+import { Check, Route } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { getDrivingScoreColor } from '@/lib/drivingScore';
+import type { RoutePlan } from '@/lib/tripPlanner';
+import { cn } from '@/lib/utils';
+
+interface RouteAlternativesTableProps {
+  plans: RoutePlan[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}h ${minutes}m`;
+};
+
+const ScoreCell = ({ score }: { score: number | null }) => {
+  if (score === null) return <span className="text-muted-foreground">—</span>;
+  const colors = getDrivingScoreColor(score);
+  return <span className={cn('font-semibold', colors.text)}>{score}</span>;
+};
+
+export const RouteAlternativesTable = ({ plans, selectedIndex, onSelect }: RouteAlternativesTableProps) => {
+  const fastest = Math.min(...plans.map(plan => plan.route.duration));
+
+  // Safest route: best worst-point score, then best average
+  const safestIndex = plans.reduce((best, plan, index) => {
+    const bestPlan = plans[best];
+    const worst = plan.minScore ?? -1;
+    const bestWorst = bestPlan.minScore ?? -1;
+    if (worst > bestWorst) return index;
+    if (worst === bestWorst && (plan.averageScore ?? -1) > (bestPlan.averageScore ?? -1)) return index;
+    return best;
+  }, 0);
+
+  return (
+    <Card className="mt-4 animate-fade-in">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Route className="h-5 w-5 text-primary" />
+          Route Alternatives
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Route</TableHead>
+              <TableHead className="text-center">Distance</TableHead>
+              <TableHead className="text-center">Duration</TableHead>
+              <TableHead className="text-center">Avg Score</TableHead>
+              <TableHead className="text-center">Worst Score</TableHead>
+              <TableHead className="text-right"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plans.map((plan, index) => {
+              const extraSeconds = plan.route.duration - fastest;
+              const isSelected = index === selectedIndex;
+              return (
+                <TableRow key={index} className={isSelected ? 'bg-primary/5' : ''}>
+                  <TableCell className="font-medium">
+                    {index === 0 ? 'Recommended' : `Alternative ${index}`}
+                    {index === safestIndex && plans.length > 1 && (
+                      <span className="ml-2 text-xs font-normal text-success">Safest</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">{Math.round(plan.route.distance)} km</TableCell>
+                  <TableCell className="text-center">
+                    {formatDuration(plan.route.duration)}
+                    {extraSeconds >= 60 && (
+                      <span className="ml-1 text-xs text-muted-foreground">(+{Math.round(extraSeconds / 60)} min)</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center"><ScoreCell score={plan.averageScore} /></TableCell>
+                  <TableCell className="text-center"><ScoreCell score={plan.minScore} /></TableCell>
+                  <TableCell className="text-right">
+                    {isSelected ? (
+                      <span className="inline-flex items-center gap-1 text-sm text-primary">
+                        <Check className="h-4 w-4" />
+                        Selected
+                      </span>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => onSelect(index)}>
+                        Select
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,19 +1,65 @@
-import { useState, useRef } from 'react';
-import { Navigation, Loader2 } from 'lucide-react';
+import { useState, useRef, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Navigation, Loader2, Plus, X, Coffee, LocateFixed, Map as MapIcon, Layers } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { CityAutocomplete } from './CityAutocomplete';
+import { SavedTrips } from './SavedTrips';
+import { WeatherProviderSettings } from './WeatherProviderSettings';
+import { MIN_BREAK_EVERY_HOURS, MIN_BREAK_MINUTES, type BreakRule, type PlaceInput, type ViaStop } from '@/lib/apiUtils';
+import type { SavedTrip } from '@/lib/savedTrips';
+import { placeFromPoint, type PickedPlace } from '@/lib/placeResolver';
+import { useToast } from '@/hooks/use-toast';
+import type { SamplingStrategy } from '@/lib/sampling';
+import type { TripRequest } from '@/lib/tripUrl';
 
 interface RouteInputProps {
-  onSubmit: (from: string, to: string, departureTime: Date) => void;
+  onSubmit: (trip: TripRequest) => void;
   isLoading: boolean;
+  trip?: TripRequest | null; // When this changes (e.g. a shared link or history navigation), the form shows it
+  pickedPlace?: PickedPlace | null; // A place picked on the map, applied to the form when it changes
+  isPickingOnMap?: boolean;
+  onTogglePickOnMap?: () => void;
 }
 
-export const RouteInput = ({ onSubmit, isLoading }: RouteInputProps) => {
-  const [from, setFrom] = useState('');
-  const [to, setTo] = useState('');
+const DEFAULT_DWELL_MINUTES = 15;
+
+// Weather sample point presets offered in the form
+const SAMPLING_OPTIONS: { label: string; strategy: SamplingStrategy }[] = [
+  { label: 'Every hour', strategy: { mode: 'time', intervalMinutes: 60 } },
+  { label: 'Every 20 min', strategy: { mode: 'time', intervalMinutes: 20 } },
+  { label: 'Every 25 km', strategy: { mode: 'distance', intervalKm: 25 } },
+  { label: 'Adaptive', strategy: { mode: 'adaptive', intervalMinutes: 60 } },
+];
+
+const isSameSampling = (a: SamplingStrategy, b: SamplingStrategy): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// The presets, plus the given strategy as a custom option when it is not one of them
+// (e.g. from a shared link), so resubmitting keeps it
+const getSamplingOptions = (current: SamplingStrategy): { label: string; strategy: SamplingStrategy }[] => {
+  if (SAMPLING_OPTIONS.some(option => isSameSampling(option.strategy, current))) return SAMPLING_OPTIONS;
+  const label = current.mode === 'distance'
+    ? `Every ${current.intervalKm} km`
+    : `${current.mode === 'adaptive' ? 'Adaptive, every' : 'Every'} ${current.intervalMinutes} min`;
+  return [...SAMPLING_OPTIONS, { label: `${label} (custom)`, strategy: current }];
+};
+
+// datetime-local inputs hold wall-clock time in the device's time zone
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export const RouteInput = ({ onSubmit, isLoading, trip, pickedPlace, isPickingOnMap = false, onTogglePickOnMap }: RouteInputProps) => {
+  const [from, setFrom] = useState<PlaceInput>({ name: '', coordinates: null });
+  const [to, setTo] = useState<PlaceInput>({ name: '', coordinates: null });
+  const [vias, setVias] = useState<ViaStop[]>([]);
+  const [breaksEnabled, setBreaksEnabled] = useState(false);
+  const [breakRule, setBreakRule] = useState<BreakRule>({ everyHours: 2, durationMinutes: 15 });
+  const [sampling, setSampling] = useState<SamplingStrategy>(SAMPLING_OPTIONS[0].strategy);
+  const [compareModels, setCompareModels] = useState(false);
   const [buttonWidth, setButtonWidth] = useState<number | undefined>(undefined);
+  const [isLocating, setIsLocating] = useState(false);
+  const { toast } = useToast();
   const buttonRef = useRef<HTMLButtonElement>(null);
   
   // Default to current time rounded to the nearest hour
@@ -21,40 +67,142 @@ export const RouteInput = ({ onSubmit, isLoading }: RouteInputProps) => {
     const now = new Date();
     now.setMinutes(0, 0, 0);
     now.setHours(now.getHours() + 1);
-    return now.toISOString().slice(0, 16);
+    return toInputValue(now);
   };
   
   // Get min/max datetime for weather data availability (Open-Meteo provides ~7 days forecast)
   const getMinDateTime = () => {
     const now = new Date();
-    return now.toISOString().slice(0, 16);
+    return toInputValue(now);
   };
   
   const getMaxDateTime = () => {
     const max = new Date();
     max.setDate(max.getDate() + 7);
-    return max.toISOString().slice(0, 16);
+    return toInputValue(max);
   };
   
   const [departureTime, setDepartureTime] = useState(getDefaultDateTime());
 
+  // Show a trip restored from elsewhere in the form
+  useEffect(() => {
+    if (!trip) return;
+    setFrom(trip.from);
+    setTo(trip.to);
+    setVias(trip.vias);
+    setDepartureTime(toInputValue(trip.departureTime));
+    setBreaksEnabled(trip.options.breakRule !== null);
+    if (trip.options.breakRule) {
+      setBreakRule(trip.options.breakRule);
+    }
+    setSampling(trip.options.sampling);
+    setCompareModels(trip.options.compareModels);
+  }, [trip]);
+
+  // Put a place picked on the map into the field it was picked for
+  useEffect(() => {
+    if (!pickedPlace) return;
+    if (pickedPlace.target === 'from') {
+      setFrom(pickedPlace.place);
+    } else if (pickedPlace.target === 'to') {
+      setTo(pickedPlace.place);
+    } else {
+      setVias(prev => [...prev, { ...pickedPlace.place, dwellMinutes: DEFAULT_DWELL_MINUTES }]);
+    }
+  }, [pickedPlace]);
+
+  // Start from the device's position, named through reverse geocoding
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location unavailable",
+        description: "This browser cannot share your location.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        try {
+          setFrom(await placeFromPoint(position.coords.latitude, position.coords.longitude));
+        } finally {
+          setIsLocating(false);
+        }
+      },
+      (error) => {
+        setIsLocating(false);
+        toast({
+          title: "Location unavailable",
+          description: error.code === error.PERMISSION_DENIED
+            ? "Location access was denied."
+            : "Your location could not be determined.",
+          variant: "destructive",
+        });
+      },
+      { timeout: 10000, maximumAge: 60000 }
+    );
+  };
+
+  // Fill the form from a saved trip, keeping the chosen departure time
+  const loadSavedTrip = (saved: SavedTrip) => {
+    setFrom(saved.from);
+    setTo(saved.to);
+    setVias(saved.vias);
+    setBreaksEnabled(saved.options.breakRule !== null);
+    if (saved.options.breakRule) {
+      setBreakRule(saved.options.breakRule);
+    }
+    setSampling(saved.options.sampling);
+    setCompareModels(saved.options.compareModels ?? false);
+  };
+
+  const samplingOptions = getSamplingOptions(sampling);
+
+  const tripOptions = {
+    breakRule: breaksEnabled ? breakRule : null,
+    sampling,
+    compareModels
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     // Capture button width before loading starts
     if (buttonRef.current) {
       setButtonWidth(buttonRef.current.offsetWidth);
     }
-    onSubmit(from, to, new Date(departureTime));
+    onSubmit({
+      from,
+      to,
+      departureTime: new Date(departureTime),
+      vias: vias.filter(via => via.name.trim() !== ''),
+      options: tripOptions
+    });
+  };
+
+  const updateVia = (index: number, changes: Partial<ViaStop>) => {
+    setVias(prev => prev.map((via, i) => (i === index ? { ...via, ...changes } : via)));
+  };
+
+  const removeVia = (index: number) => {
+    setVias(prev => prev.filter((_, i) => i !== index));
   };
 
 
   return (
     <Card className="card-shadow animate-fade-in">
-      <CardHeader className="pb-4">
+      <CardHeader className="flex-row items-center justify-between space-y-0 pb-4">
         <CardTitle className="flex items-center gap-2 text-xl font-semibold">
           <Navigation className="h-5 w-5 text-primary" />
           Route and Date
         </CardTitle>
+        <div className="flex flex-wrap justify-end gap-2">
+          <WeatherProviderSettings />
+          <SavedTrips
+            current={{ from, to, vias: vias.filter(via => via.name.trim() !== ''), options: tripOptions }}
+            onLoad={loadSavedTrip}
+          />
+        </div>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -65,6 +213,19 @@ export const RouteInput = ({ onSubmit, isLoading }: RouteInputProps) => {
                 onChange={setFrom}
                 placeholder="Departure city"
                 label="From"
+                action={
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleUseCurrentLocation}
+                    disabled={isLocating}
+                    aria-label="Use current location"
+                    title="Use current location"
+                  >
+                    {isLocating ? <Loader2 className="h-4 w-4 animate-spin" /> : <LocateFixed className="h-4 w-4" />}
+                  </Button>
+                }
               />
             </div>
             
@@ -114,6 +275,128 @@ export const RouteInput = ({ onSubmit, isLoading }: RouteInputProps) => {
               </Button>
             </div>
           </div>
+
+          {/* Intermediate stops, visited in order between From and To */}
+          {vias.map((via, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <div className="flex-1">
+                <CityAutocomplete
+                  value={via}
+                  onChange={(place) => updateVia(index, place)}
+                  placeholder="Stop along the way"
+                  label={`Stop ${index + 1}`}
+                />
+              </div>
+              <div className="relative w-28 rounded-lg border border-input bg-background transition-colors focus-within:border-primary">
+                <label className="absolute left-3 top-2.5 text-xs font-medium text-muted-foreground">
+                  Stop (min)
+                </label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={5}
+                  value={via.dwellMinutes}
+                  onChange={(e) => updateVia(index, { dwellMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                  className="h-14 border-0 pt-7 pb-2 text-base font-medium focus-visible:ring-0 focus-visible:ring-offset-0"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeVia(index)}
+                aria-label={`Remove stop ${index + 1}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setVias(prev => [...prev, { name: '', coordinates: null, dwellMinutes: DEFAULT_DWELL_MINUTES }])}
+              disabled={isLoading}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add stop
+            </Button>
+
+            {onTogglePickOnMap && (
+              <Button
+                type="button"
+                variant={isPickingOnMap ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={onTogglePickOnMap}
+              >
+                <MapIcon className="mr-2 h-4 w-4" />
+                {isPickingOnMap ? 'Hide map' : 'Pick on map'}
+              </Button>
+            )}
+
+            {/* Optional rest rule: shifts all later arrival times */}
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <Switch
+                id="break-rule"
+                checked={breaksEnabled}
+                onCheckedChange={setBreaksEnabled}
+              />
+              <label htmlFor="break-rule" className="flex items-center gap-1">
+                <Coffee className="h-4 w-4" />
+                Break every
+              </label>
+              <Input
+                type="number"
+                min={MIN_BREAK_EVERY_HOURS}
+                step={0.5}
+                value={breakRule.everyHours}
+                onChange={(e) => setBreakRule(prev => ({ ...prev, everyHours: Math.max(MIN_BREAK_EVERY_HOURS, Number(e.target.value) || 0) }))}
+                disabled={!breaksEnabled}
+                className="h-8 w-16"
+                aria-label="Hours of driving between breaks"
+              />
+              <span>h for</span>
+              <Input
+                type="number"
+                min={MIN_BREAK_MINUTES}
+                step={5}
+                value={breakRule.durationMinutes}
+                onChange={(e) => setBreakRule(prev => ({ ...prev, durationMinutes: Math.max(MIN_BREAK_MINUTES, Number(e.target.value) || 0) }))}
+                disabled={!breaksEnabled}
+                className="h-8 w-16"
+                aria-label="Break length in minutes"
+              />
+              <span>min</span>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              Weather points
+              <select
+                value={samplingOptions.findIndex(option => isSameSampling(option.strategy, sampling))}
+                onChange={(e) => setSampling(samplingOptions[Number(e.target.value)].strategy)}
+                className="h-8 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+              >
+                {samplingOptions.map((option, index) => (
+                  <option key={option.label} value={index}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+
+            {/* Fetch several forecast models and show how much they disagree */}
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Switch
+                id="compare-models"
+                checked={compareModels}
+                onCheckedChange={setCompareModels}
+              />
+              <label htmlFor="compare-models" className="flex items-center gap-1">
+                <Layers className="h-4 w-4" />
+                Compare models
+              </label>
+            </div>
+          </div>
         </form>
       </CardContent>
     </Card>
@@ -2,7 +2,13 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import type { Waypoint, WeatherData } from '@/lib/apiUtils';
+import type { MapPickTarget } from '@/lib/placeResolver';
 import { getWeatherDescription, isNightTime } from '@/lib/weatherUtils';
+import { WARNING_LEVEL_COLORS, type CapWarning, type RouteWarning } from '@/lib/weatherWarnings';
+import { describeIncidentDuration, type RouteIncident } from '@/lib/incidents';
+import type { FerryCrossing } from '@/lib/ferries';
+import type { GlareSegment } from '@/lib/glare';
+import { getLocalTimeLabel } from '@/lib/timeZones';
 
 // Fix for default marker icons in Leaflet with webpack/vite
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -53,18 +59,91 @@ interface RouteMapProps {
   routeGeometry: [number, number][];
   waypoints: Waypoint[];
   weatherData: Map<number, WeatherData | null>;
+  warnings?: RouteWarning[]; // Official warnings along the route, shaded by level
+  incidents?: RouteIncident[]; // Traffic incidents on the route
+  ferries?: FerryCrossing[]; // Sea legs of the selected route, drawn dashed
+  glare?: GlareSegment[]; // Stretches with low sun ahead
+  alternativeRoutes?: [number, number][][]; // Geometry of every candidate route, including the selected one
+  selectedRouteIndex?: number;
+  onSelectRoute?: (index: number) => void;
+  onPickPoint?: (target: MapPickTarget, lat: number, lon: number) => void; // Enables picking form places on the map
 }
 
+const PICK_OPTIONS: { target: MapPickTarget; label: string }[] = [
+  { target: 'from', label: 'Set as start' },
+  { target: 'via', label: 'Add as stop' },
+  { target: 'to', label: 'Set as destination' },
+];
+
+// Popup content with one button per pick target
+const createPickPopupContent = (onPick: (target: MapPickTarget) => void): HTMLElement => {
+  const container = document.createElement('div');
+  container.style.cssText = 'display: flex; flex-direction: column; gap: 4px; font-family: system-ui, sans-serif;';
+  PICK_OPTIONS.forEach(({ target, label }) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.style.cssText = 'padding: 4px 10px; border: 1px solid #e5e7eb; border-radius: 6px; background: #ffffff; font-size: 0.875rem; text-align: left; cursor: pointer;';
+    button.addEventListener('click', () => onPick(target));
+    container.appendChild(button);
+  });
+  return container;
+};
+
+// Popup for a warning area. Built from DOM nodes since the text comes from external feeds.
+const createWarningPopupContent = (warning: CapWarning, areaDescription: string, entersAt: string): HTMLElement => {
+  const container = document.createElement('div');
+  container.style.cssText = 'max-width: 240px; font-family: system-ui, sans-serif;';
+  const lines: [string, string][] = [
+    [warning.headline, 'font-weight: 600; margin: 0 0 2px 0;'],
+    [`${areaDescription} · from ${entersAt} on your route`, 'color: #6b7280; margin: 0 0 4px 0; font-size: 0.875rem;'],
+    [warning.description, 'margin: 0; font-size: 0.875rem;'],
+  ];
+  lines.filter(([text]) => text).forEach(([text, style]) => {
+    const paragraph = document.createElement('p');
+    paragraph.textContent = text;
+    paragraph.style.cssText = style;
+    container.appendChild(paragraph);
+  });
+  return container;
+};
+
+const GLARE_COLOR = '#fde047';
+const INCIDENT_COLOR = '#f59e0b';
+const CLOSURE_COLOR = '#dc2626';
+
+// Popup for a traffic incident, built from DOM nodes like the warning popup
+const createIncidentPopupContent = ({ incident, activeAtEta }: RouteIncident, etaText: string): HTMLElement => {
+  const container = document.createElement('div');
+  container.style.cssText = 'max-width: 240px; font-family: system-ui, sans-serif;';
+  const lines: [string, string][] = [
+    [incident.title, 'font-weight: 600; margin: 0 0 2px 0;'],
+    [`You pass at ${etaText} · ${describeIncidentDuration(incident, new Date())}`, 'color: #6b7280; margin: 0 0 4px 0; font-size: 0.875rem;'],
+    [incident.isClosure && activeAtEta ? 'Closed when you get there' : '', `color: ${CLOSURE_COLOR}; font-weight: 600; margin: 0 0 4px 0; font-size: 0.875rem;`],
+    [incident.description, 'margin: 0; font-size: 0.875rem;'],
+  ];
+  lines.filter(([text]) => text).forEach(([text, style]) => {
+    const paragraph = document.createElement('p');
+    paragraph.textContent = text;
+    paragraph.style.cssText = style;
+    container.appendChild(paragraph);
+  });
+  return container;
+};
+
 // Create custom icon with weather SVG
-const createWeatherIcon = (weatherSymbol: number | null, isNight: boolean, isFirst: boolean, isLast: boolean) => {
-  const bgColor = isFirst ? '#3b82f6' : isLast ? '#22c55e' : '#ffffff';
-  const borderColor = isFirst ? '#2563eb' : isLast ? '#16a34a' : '#e5e7eb';
-  const iconColor = isFirst || isLast ? '#ffffff' : '#374151';
+// Via-point stops get a rounded-square amber marker so they stand out from the round hourly markers
+const createWeatherIcon = (weatherSymbol: number | null, isNight: boolean, isFirst: boolean, isLast: boolean, isStop: boolean = false) => {
+  const bgColor = isFirst ? '#3b82f6' : isLast ? '#22c55e' : isStop ? '#f59e0b' : '#ffffff';
+  const borderColor = isFirst ? '#2563eb' : isLast ? '#16a34a' : isStop ? '#d97706' : '#e5e7eb';
+  const iconColor = isFirst || isLast || isStop ? '#ffffff' : '#374151';
+  const borderRadius = isStop ? '10px' : '50%';
   
   const svgContent = weatherSymbol !== null 
     ? getMapWeatherSvg(weatherSymbol, isNight)
     : (isFirst ? '<path d="M4 17h12M4 17l4-4M4 17l4 4" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>' 
        : isLast ? '<path d="M4 15l4-6 4 6M20 12l-4 4-4-4" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>'
+       : isStop ? '<path d="M6 21V4M6 4h11l-2 4 2 4H6" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" fill="none"/>'
        : '<circle cx="12" cy="12" r="3" stroke="currentColor" stroke-width="2" fill="none"/>');
   
   return L.divIcon({
@@ -78,7 +157,7 @@ const createWeatherIcon = (weatherSymbol: number | null, isNight: boolean, isFir
         height: 40px;
         background: ${bgColor};
         border: 2px solid ${borderColor};
-        border-radius: 50%;
+        border-radius: ${borderRadius};
         box-shadow: 0 2px 8px rgba(0,0,0,0.15);
       ">
         <svg width="20" height="20" viewBox="0 0 24 24" style="color: ${iconColor}">
@@ -117,12 +196,31 @@ const filterWaypointsInBounds = (
   return [...new Set(filtered)].sort((a, b) => a - b);
 };
 
-export const RouteMap = ({ routeGeometry, waypoints, weatherData }: RouteMapProps) => {
+export const RouteMap = ({ 
+  routeGeometry, 
+  waypoints, 
+  weatherData, 
+  warnings = [],
+  incidents = [],
+  ferries = [],
+  glare = [],
+  alternativeRoutes = [], 
+  selectedRouteIndex = 0, 
+  onSelectRoute,
+  onPickPoint
+}: RouteMapProps) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<L.Map | null>(null);
   const markersRef = useRef<L.Marker[]>([]);
   const polylineRef = useRef<L.Polyline | null>(null);
+  const alternativeLinesRef = useRef<L.Polyline[]>([]);
+  const warningAreasRef = useRef<L.Polygon[]>([]);
+  const incidentLayersRef = useRef<L.Path[]>([]);
+  const ferryLinesRef = useRef<L.Polyline[]>([]);
+  const glareLinesRef = useRef<L.Polyline[]>([]);
   const lastRouteRef = useRef<string>(''); // Track route changes
+  const onPickPointRef = useRef(onPickPoint);
+  onPickPointRef.current = onPickPoint;
   const [actualShown, setActualShown] = useState(0);
   const [viewVersion, setViewVersion] = useState(0); // Trigger re-render on zoom/pan
 
@@ -152,10 +250,28 @@ export const RouteMap = ({ routeGeometry, waypoints, weatherData }: RouteMapProp
     mapRef.current.on('zoomend', handleViewChange);
     mapRef.current.on('moveend', handleViewChange);
 
+    // Click (or long-press on touch screens, which Leaflet reports as contextmenu)
+    // offers to use the point in the route form
+    const handlePick = (e: L.LeafletMouseEvent) => {
+      if (!mapRef.current || !onPickPointRef.current) return;
+      const { lat, lng } = e.latlng;
+      const popup = L.popup()
+        .setLatLng(e.latlng)
+        .setContent(createPickPopupContent(target => {
+          onPickPointRef.current?.(target, lat, lng);
+          popup.remove();
+        }))
+        .openOn(mapRef.current);
+    };
+    mapRef.current.on('click', handlePick);
+    mapRef.current.on('contextmenu', handlePick);
+
     return () => {
       if (mapRef.current) {
         mapRef.current.off('zoomend', handleViewChange);
         mapRef.current.off('moveend', handleViewChange);
+        mapRef.current.off('click', handlePick);
+        mapRef.current.off('contextmenu', handlePick);
         mapRef.current.remove();
         mapRef.current = null;
       }
@@ -191,13 +307,120 @@ export const RouteMap = ({ routeGeometry, waypoints, weatherData }: RouteMapProp
     }
   }, [routeGeometry]);
 
+  // Draw ferry crossings as dashed lines over the route: a base line in the map's
+  // sea colour hides the solid route line underneath
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    ferryLinesRef.current.forEach(line => line.remove());
+    ferryLinesRef.current = [];
+
+    ferries.forEach(crossing => {
+      if (!mapRef.current || crossing.geometry.length < 2) return;
+      const base = L.polyline(crossing.geometry, { color: '#aad3df', weight: 6, opacity: 1 }).addTo(mapRef.current);
+      const line = L.polyline(crossing.geometry, { color: '#0284c7', weight: 4, opacity: 0.9, dashArray: '8 8' }).addTo(mapRef.current);
+      line.bindTooltip(`Ferry: ${crossing.name}`, { sticky: true });
+      ferryLinesRef.current.push(base, line);
+    });
+  }, [ferries, routeGeometry]);
+
+  // Highlight sun glare stretches alongside the route
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    glareLinesRef.current.forEach(line => line.remove());
+    glareLinesRef.current = [];
+
+    glare.forEach(segment => {
+      if (!mapRef.current) return;
+      const line = L.polyline(segment.geometry, { color: GLARE_COLOR, weight: 9, opacity: 0.6 }).addTo(mapRef.current);
+      line.bindTooltip(`Low sun ahead ${formatTime(segment.start)}–${formatTime(segment.end)}`, { sticky: true });
+      line.bringToBack();
+      glareLinesRef.current.push(line);
+    });
+  }, [glare]);
+
+  // Draw the non-selected alternatives underneath the selected route; clicking one selects it
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    alternativeLinesRef.current.forEach(line => line.remove());
+    alternativeLinesRef.current = [];
+
+    alternativeRoutes.forEach((geometry, index) => {
+      if (!mapRef.current || index === selectedRouteIndex || geometry.length === 0) return;
+      const line = L.polyline(geometry, {
+        color: '#6b7280',
+        weight: 5,
+        opacity: 0.5,
+      }).addTo(mapRef.current);
+      line.bindTooltip(`${index === 0 ? 'Recommended route' : `Alternative ${index}`} – click to select`, { sticky: true });
+      if (onSelectRoute) {
+        line.on('click', (e) => {
+          // Selecting a route should not also open the map pick popup
+          L.DomEvent.stopPropagation(e);
+          onSelectRoute(index);
+        });
+      }
+      line.bringToBack();
+      alternativeLinesRef.current.push(line);
+    });
+  }, [alternativeRoutes, selectedRouteIndex, onSelectRoute]);
+
+  // Shade the areas of official warnings under the route
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    warningAreasRef.current.forEach(area => area.remove());
+    warningAreasRef.current = [];
+
+    warnings.forEach(({ warning, enters }) => {
+      warning.areas.forEach(area => {
+        area.polygons.forEach(polygon => {
+          if (!mapRef.current) return;
+          const color = WARNING_LEVEL_COLORS[warning.level];
+          const shape = L.polygon(polygon, {
+            color,
+            weight: 1,
+            fillColor: color,
+            fillOpacity: 0.2,
+          }).addTo(mapRef.current);
+          shape.bindPopup(createWarningPopupContent(warning, area.description, formatTime(enters)));
+          shape.bringToBack();
+          warningAreasRef.current.push(shape);
+        });
+      });
+    });
+  }, [warnings]);
+
+  // Mark traffic incidents: lines for stretches, dots for points; closures in red
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    incidentLayersRef.current.forEach(layer => layer.remove());
+    incidentLayersRef.current = [];
+
+    incidents.forEach(routeIncident => {
+      if (!mapRef.current) return;
+      const { incident } = routeIncident;
+      const color = incident.isClosure ? CLOSURE_COLOR : INCIDENT_COLOR;
+      const layer = incident.points.length > 1
+        ? L.polyline(incident.points, { color, weight: 7, opacity: 0.9, dashArray: incident.isClosure ? '6 6' : undefined })
+        : L.circleMarker(incident.points[0], { radius: 7, color: '#ffffff', weight: 2, fillColor: color, fillOpacity: 1 });
+      layer.bindPopup(createIncidentPopupContent(routeIncident, formatTime(routeIncident.eta)));
+      layer.addTo(mapRef.current);
+      incidentLayersRef.current.push(layer);
+    });
+  }, [incidents]);
+
   // Update markers when data or view changes
   useEffect(() => {
-    if (!mapRef.current || waypoints.length === 0) return;
+    if (!mapRef.current) return;
 
     // Clear existing markers
     markersRef.current.forEach(marker => marker.remove());
     markersRef.current = [];
+    if (waypoints.length === 0) return;
 
     // Get current map bounds
     const bounds = mapRef.current.getBounds();
@@ -213,10 +436,13 @@ export const RouteMap = ({ routeGeometry, waypoints, weatherData }: RouteMapProp
     // Filter to max 10 waypoints in view, evenly distributed
     const filteredIndices = filterWaypointsInBounds(waypoints, visibleInBounds, MAX_WAYPOINTS_IN_VIEW);
     
-    // Always include start and end even if outside current view
+    // Always include start, end and via-point stops even if outside current view
     const indicesToShow = new Set(filteredIndices);
     indicesToShow.add(0);
     indicesToShow.add(waypoints.length - 1);
+    waypoints.forEach((waypoint, index) => {
+      if (waypoint.kind === 'via') indicesToShow.add(index);
+    });
     
     const finalIndices = Array.from(indicesToShow).sort((a, b) => a - b);
     
@@ -231,17 +457,20 @@ export const RouteMap = ({ routeGeometry, waypoints, weatherData }: RouteMapProp
       const weather = weatherData.get(originalIndex);
       const isFirst = originalIndex === 0;
       const isLast = originalIndex === waypoints.length - 1;
-      const isNight = weather ? isNightTime(waypoint.arrivalTime, weather.sunrise, weather.sunset) : false;
+      const isStop = waypoint.kind === 'via';
+      const isNight = weather ? isNightTime(waypoint.arrivalTime, waypoint.lat, waypoint.lon) : false;
 
       const marker = L.marker([waypoint.lat, waypoint.lon], {
-        icon: createWeatherIcon(weather?.weatherSymbol ?? null, isNight, isFirst, isLast),
+        icon: createWeatherIcon(weather?.weatherSymbol ?? null, isNight, isFirst, isLast, isStop),
       }).addTo(mapRef.current);
 
+      const localTime = getLocalTimeLabel(waypoint.arrivalTime, waypoint.country ?? null);
+
       // Create popup content
       let popupContent = `
         <div style="min-width: 150px; font-family: system-ui, sans-serif;">
-          <p style="font-weight: 600; font-size: 1.125rem; margin: 0 0 2px 0;">${formatTime(waypoint.arrivalTime)}</p>
-          <p style="color: #6b7280; margin: 0 0 8px 0; font-size: 0.875rem;">${waypoint.name}</p>
+          <p style="font-weight: 600; font-size: 1.125rem; margin: 0 0 2px 0;">${formatTime(waypoint.arrivalTime)}${localTime ? `<span style="font-weight: 400; font-size: 0.75rem; color: #6b7280;"> (${localTime} local)</span>` : ''}</p>
+          <p style="color: #6b7280; margin: 0 0 8px 0; font-size: 0.875rem;">${isStop ? 'Stop: ' : ''}${waypoint.name}</p>
       `;
 
       if (weather) {
@@ -286,10 +515,49 @@ export const RouteMap = ({ routeGeometry, waypoints, weatherData }: RouteMapProp
             <span className="w-3 h-3 rounded-full bg-success"></span>
             End
           </span>
+          {alternativeRoutes.length > 1 && (
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-1 rounded-full bg-muted-foreground/50"></span>
+              Alternative
+            </span>
+          )}
+          {ferries.length > 0 && (
+            <span className="flex items-center gap-1">
+              <span className="w-3 border-t-2 border-dashed border-sky-600"></span>
+              Ferry
+            </span>
+          )}
+          {glare.length > 0 && (
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-1.5 rounded-full" style={{ backgroundColor: GLARE_COLOR }}></span>
+              Sun glare
+            </span>
+          )}
+          {warnings.length > 0 && (
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-sm border" style={{ backgroundColor: `${WARNING_LEVEL_COLORS.orange}33`, borderColor: WARNING_LEVEL_COLORS.orange }}></span>
+              Warning area
+            </span>
+          )}
+          {incidents.length > 0 && (
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: incidents.some(({ incident }) => incident.isClosure) ? CLOSURE_COLOR : INCIDENT_COLOR }}></span>
+              {incidents.some(({ incident }) => incident.isClosure) ? 'Incident / closure' : 'Incident'}
+            </span>
+          )}
+          {waypoints.some(waypoint => waypoint.kind === 'via') && (
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-sm bg-warning"></span>
+              Stop
+            </span>
+          )}
           <span className="flex items-center gap-1">
             <span className="w-3 h-3 rounded-full bg-card border border-border"></span>
             Waypoint
           </span>
+          {onPickPoint && (
+            <span className="text-muted-foreground">Click or long-press to pick a place</span>
+          )}
           {waypoints.length > actualShown && (
             <span className="text-muted-foreground">
               ({actualShown}/{waypoints.length} shown)
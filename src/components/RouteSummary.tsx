@@ -1,20 +1,30 @@
-import { Clock, Route, MapPin, Flag } from 'lucide-react';
+import { Clock, Route, MapPin, Flag, CircleDot } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
+import type { CountryCode } from '@/lib/countries';
+import { getLocalTimeLabel, getReferenceTimeZone } from '@/lib/timeZones';
 
 interface RouteSummaryProps {
   distance: number;
   duration: number;
   departureTime: Date;
+  arrivalTime?: Date; // Includes planned stops; defaults to departure + driving time
   fromName: string;
   toName: string;
+  viaNames?: string[];
+  fromCountry?: CountryCode | null; // For local times when the route crosses time zones
+  toCountry?: CountryCode | null;
 }
 
 export const RouteSummary = ({
   distance,
   duration,
   departureTime,
+  arrivalTime: plannedArrival,
   fromName,
-  toName
+  toName,
+  viaNames = [],
+  fromCountry = null,
+  toCountry = null
 }: RouteSummaryProps) => {
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
@@ -22,7 +32,10 @@ export const RouteSummary = ({
     return `${hours}h ${minutes}m`;
   };
 
-  const arrivalTime = new Date(departureTime.getTime() + duration * 1000);
+  const arrivalTime = plannedArrival ?? new Date(departureTime.getTime() + duration * 1000);
+  const stopSeconds = (arrivalTime.getTime() - departureTime.getTime()) / 1000 - duration;
+  const localDeparture = getLocalTimeLabel(departureTime, fromCountry);
+  const localArrival = getLocalTimeLabel(arrivalTime, toCountry);
 
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString('en-GB', { 
@@ -48,6 +61,15 @@ export const RouteSummary = ({
             <span className="font-medium text-foreground">{fromName}</span>
           </div>
           <div className="flex-1 border-t-2 border-dashed border-primary/30" />
+          {viaNames.map((viaName, index) => (
+            <div key={index} className="contents">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <CircleDot className="h-4 w-4 text-warning" />
+                <span className="font-medium text-foreground">{viaName}</span>
+              </div>
+              <div className="flex-1 border-t-2 border-dashed border-primary/30" />
+            </div>
+          ))}
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Flag className="h-4 w-4 text-primary" />
             <span className="font-medium text-foreground">{toName}</span>
@@ -70,20 +92,34 @@ export const RouteSummary = ({
               <span>Duration</span>
             </div>
             <p className="text-2xl font-semibold">{formatDuration(duration)}</p>
+            {stopSeconds >= 60 && (
+              <p className="text-xs text-muted-foreground">+{formatDuration(stopSeconds)} stops</p>
+            )}
           </div>
           
           <div className="space-y-1">
             <div className="text-sm text-muted-foreground">Departure</div>
             <p className="text-lg font-semibold">{formatTime(departureTime)}</p>
             <p className="text-xs text-muted-foreground">{formatDate(departureTime)}</p>
+            {localDeparture && (
+              <p className="text-xs text-muted-foreground">{localDeparture} local time</p>
+            )}
           </div>
           
           <div className="space-y-1">
             <div className="text-sm text-muted-foreground">Arrival</div>
             <p className="text-lg font-semibold">{formatTime(arrivalTime)}</p>
             <p className="text-xs text-muted-foreground">{formatDate(arrivalTime)}</p>
+            {localArrival && (
+              <p className="text-xs text-muted-foreground">{localArrival} local time</p>
+            )}
           </div>
         </div>
+        {(localDeparture || localArrival) && (
+          <p className="mt-3 text-xs text-muted-foreground">
+            Times are in your time zone ({getReferenceTimeZone()}); local times are shown where the clocks differ.
+          </p>
+        )}
       </CardContent>
     </Card>
   );
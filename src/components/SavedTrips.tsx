@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Bookmark, Check, Pencil, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useSavedTrips } from '@/hooks/use-saved-trips';
+import { deleteTrip, renameTrip, saveTrip, type SavedTrip } from '@/lib/savedTrips';
+
+interface SavedTripsProps {
+  current: Omit<SavedTrip, 'id' | 'savedAt' | 'name'>; // The trip currently in the form
+  onLoad: (trip: SavedTrip) => void;
+}
+
+const describeTrip = (trip: Pick<SavedTrip, 'from' | 'to' | 'vias'>) => {
+  return [trip.from, ...trip.vias, trip.to].map(place => place.name.split(',')[0]).join(' → ');
+};
+
+export const SavedTrips = ({ current, onLoad }: SavedTripsProps) => {
+  const { trips } = useSavedTrips();
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const canSave = current.from.name.trim() !== '' && current.to.name.trim() !== '';
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    saveTrip({ ...current, name: newName.trim() || describeTrip(current) });
+    setNewName('');
+  };
+
+  const startRename = (trip: SavedTrip) => {
+    setEditingId(trip.id);
+    setEditingName(trip.name);
+  };
+
+  const finishRename = () => {
+    if (editingId && editingName.trim()) {
+      renameTrip(editingId, editingName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleLoad = (trip: SavedTrip) => {
+    onLoad(trip);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Bookmark className="mr-2 h-4 w-4" />
+          Saved trips
+          {trips.length > 0 && <span className="ml-1 text-muted-foreground">({trips.length})</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <form onSubmit={handleSave} className="flex items-center gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={canSave ? describeTrip(current) : 'Enter a route first'}
+            disabled={!canSave}
+            className="h-8"
+            aria-label="Name for the saved trip"
+          />
+          <Button type="submit" size="sm" disabled={!canSave}>
+            <Save className="mr-1 h-4 w-4" />
+            Save
+          </Button>
+        </form>
+
+        {trips.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved trips yet.</p>
+        ) : (
+          <ul className="max-h-64 space-y-1 overflow-auto">
+            {trips.map(trip => (
+              <li key={trip.id} className="flex items-center gap-1 rounded-md px-1 hover:bg-accent">
+                {editingId === trip.id ? (
+                  <>
+                    <Input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="h-8"
+                      autoFocus
+                      aria-label="New trip name"
+                    />
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={finishRename} aria-label="Confirm rename">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)} aria-label="Cancel rename">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => handleLoad(trip)}
+                      className="min-w-0 flex-1 py-1.5 text-left"
+                    >
+                      <div className="truncate text-sm font-medium">{trip.name}</div>
+                      <div className="truncate text-xs text-muted-foreground">{describeTrip(trip)}</div>
+                    </button>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => startRename(trip)} aria-label={`Rename ${trip.name}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => deleteTrip(trip.id)} aria-label={`Delete ${trip.name}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
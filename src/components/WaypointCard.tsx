@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { createPortal } from 'react-dom';
-import { Thermometer, Droplets, Wind, Eye, AlertTriangle, Loader2, MapPin } from 'lucide-react';
+import { Thermometer, Droplets, Wind, Eye, AlertTriangle, Loader2, MapPin, Coffee, Route, Ship, Waves, Mountain, Sun } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import type { WeatherData, Waypoint } from '@/lib/apiUtils';
@@ -9,7 +9,8 @@ import {
   getWeatherDescription, 
   getPrecipitationType,
   isDangerousConditions,
-  getConditionWarnings
+  getConditionWarnings,
+  isNightTime
 } from '@/lib/weatherUtils';
 import { 
   calculateDrivingScore, 
@@ -18,8 +19,20 @@ import {
   getScoreBreakdown,
   formatBreakdownForDisplay
 } from '@/lib/drivingScore';
+import { formatSpreadForDisplay, type EnsembleSpread, type ForecastConfidence } from '@/lib/ensemble';
+import { WARNING_LEVEL_COLORS, type RouteWarning } from '@/lib/weatherWarnings';
+import { getSurfaceStateLabel } from '@/lib/roadWeather';
+import { getCancellationRisk } from '@/lib/ferries';
+import type { GlareSegment } from '@/lib/glare';
+import { getLocalTimeLabel } from '@/lib/timeZones';
 import { cn } from '@/lib/utils';
 
+const CONFIDENCE_STYLES: Record<ForecastConfidence, { label: string; className: string }> = {
+  high: { label: 'High', className: 'border-success/50 text-success' },
+  medium: { label: 'Medium', className: 'border-warning/50 text-warning' },
+  low: { label: 'Low', className: 'border-destructive/50 text-destructive' },
+};
+
 interface MouseTooltipProps {
   text: string | string[];
   children: React.ReactNode;
@@ -60,6 +73,9 @@ const MouseTooltip = ({ text, children }: MouseTooltipProps) => {
 interface WaypointCardProps {
   waypoint: Waypoint;
   weather: WeatherData | null;
+  spread?: EnsembleSpread | null; // Disagreement between forecast models, when compared
+  warnings?: RouteWarning[]; // Official warnings in force at this waypoint
+  glare?: GlareSegment[]; // Low sun ahead around this waypoint
   isLoading: boolean;
   index: number;
   isFirst: boolean;
@@ -69,6 +85,9 @@ interface WaypointCardProps {
 export const WaypointCard = ({ 
   waypoint, 
   weather, 
+  spread = null,
+  warnings: officialWarnings = [],
+  glare = [],
   isLoading, 
   index,
   isFirst,
@@ -93,11 +112,20 @@ export const WaypointCard = ({
     weather.windSpeed
   ) : [];
 
+  const isStop = waypoint.kind === 'via';
+  // Wall-clock time at the waypoint when its country's clocks differ from the user's
+  const localTime = getLocalTimeLabel(waypoint.arrivalTime, waypoint.country ?? null);
+  const isBreak = waypoint.kind === 'break';
+  const isFerry = waypoint.ferryIndex !== undefined;
+  const cancellationRisk = weather && isFerry ? getCancellationRisk(weather) : 'none';
+
   const score = weather ? calculateDrivingScore(weather) : null;
   const scoreColors = score !== null ? getDrivingScoreColor(score) : null;
   const scoreLabel = score !== null ? getDrivingScoreLabel(score) : null;
   const breakdown = weather ? getScoreBreakdown(weather) : null;
   const breakdownLines = breakdown ? formatBreakdownForDisplay(breakdown) : [];
+  // Model spreads are for the grid height, like the uncorrected forecast
+  const temperatureCorrection = weather?.altitude?.temperatureCorrection ?? 0;
 
   return (
     <Card 
@@ -115,13 +143,15 @@ export const WaypointCard = ({
               "flex h-8 w-8 items-center justify-center rounded-full text-sm",
               isFirst && "bg-primary text-primary-foreground",
               isLast && "bg-success text-success-foreground",
-              !isFirst && !isLast && "bg-secondary text-secondary-foreground"
+              isStop && "bg-warning text-warning-foreground",
+              isFerry && "bg-sky-500/15 text-sky-700 dark:text-sky-300",
+              !isFirst && !isLast && !isStop && !isFerry && "bg-secondary text-secondary-foreground"
             )}>
               {isLoading ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
               ) : weather ? (
                 (() => {
-                  const WeatherIcon = getWeatherIconComponent(weather.weatherSymbol);
+                  const WeatherIcon = getWeatherIconComponent(weather.weatherSymbol, isNightTime(waypoint.arrivalTime, waypoint.lat, waypoint.lon));
                   return <WeatherIcon className="h-4 w-4" />;
                 })()
               ) : (
@@ -129,7 +159,9 @@ export const WaypointCard = ({
               )}
             </div>
             {!isLast && (
-              <div className="mt-1 h-4 w-0.5 bg-border" />
+              isFerry
+                ? <div className="mt-1 h-4 border-l-2 border-dashed border-sky-500/60" />
+                : <div className="mt-1 h-4 w-0.5 bg-border" />
             )}
           </div>
           
@@ -139,7 +171,16 @@ export const WaypointCard = ({
             <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
               <span className="font-semibold text-foreground">
                 {formatTime(waypoint.arrivalTime)}
+                {waypoint.departureTime && waypoint.departureTime.getTime() > waypoint.arrivalTime.getTime() && (
+                  <>–{formatTime(waypoint.departureTime)}</>
+                )}
               </span>
+
+              {localTime && (
+                <span className="text-xs text-muted-foreground">
+                  ({localTime} local)
+                </span>
+              )}
               
               {weather && (
                 <span className="text-muted-foreground">
@@ -151,6 +192,26 @@ export const WaypointCard = ({
                 {waypoint.name}
               </span>
               
+              {isStop && (
+                <Badge variant="outline" className="text-xs font-medium border-warning/50 text-warning-foreground">
+                  Stop
+                </Badge>
+              )}
+              
+              {isBreak && (
+                <Badge variant="outline" className="text-xs font-medium gap-1">
+                  <Coffee className="h-3 w-3" />
+                  Break
+                </Badge>
+              )}
+              
+              {isFerry && (
+                <Badge variant="outline" className="text-xs font-medium gap-1 border-sky-500/50 text-sky-700 dark:text-sky-300">
+                  <Ship className="h-3 w-3" />
+                  Ferry
+                </Badge>
+              )}
+              
               {waypoint.distanceFromStart > 0 && (
                 <span className="text-muted-foreground text-xs">
                   {Math.round(waypoint.distanceFromStart)} km
@@ -159,7 +220,7 @@ export const WaypointCard = ({
               
               <div className="flex items-center gap-2 ml-auto">
                 {score !== null && scoreColors && (
-                  <MouseTooltip text={[`Score: ${score}/100 (${scoreLabel})`, ...breakdownLines]}>
+                  <MouseTooltip text={[`${isFerry ? 'Crossing score' : 'Score'}: ${score}/100 (${scoreLabel})`, ...breakdownLines]}>
                     <div className={cn(
                       "flex items-center px-1.5 py-0.5 rounded-full text-xs font-medium",
                       scoreColors.bg,
@@ -171,7 +232,50 @@ export const WaypointCard = ({
                     </div>
                   </MouseTooltip>
                 )}
+
+                {score !== null && spread && (
+                  <MouseTooltip text={formatSpreadForDisplay(spread)}>
+                    <Badge variant="outline" className={cn("text-xs font-medium", CONFIDENCE_STYLES[spread.confidence].className)}>
+                      {CONFIDENCE_STYLES[spread.confidence].label} confidence
+                    </Badge>
+                  </MouseTooltip>
+                )}
                 
+                {officialWarnings.map(({ warning }) => (
+                  <MouseTooltip key={warning.id} text={[warning.headline, warning.description].filter(Boolean)}>
+                    <Badge
+                      variant="outline"
+                      className="gap-1 text-xs font-medium"
+                      style={{ borderColor: WARNING_LEVEL_COLORS[warning.level] }}
+                    >
+                      <AlertTriangle className="h-3 w-3" style={{ color: WARNING_LEVEL_COLORS[warning.level] }} />
+                      {warning.event}
+                    </Badge>
+                  </MouseTooltip>
+                ))}
+
+                {glare.map(segment => (
+                  <MouseTooltip key={segment.startKm} text={[
+                    `Low sun ahead ${formatTime(segment.start)}–${formatTime(segment.end)}`,
+                    `${Math.round(segment.startKm)}–${Math.round(segment.endKm)} km, sun ${Math.max(0, segment.lowestSunElevation).toFixed(0)}° above the horizon`,
+                  ]}>
+                    <Badge variant="outline" className="gap-1 text-xs font-medium border-amber-500/50 text-amber-600 dark:text-amber-400">
+                      <Sun className="h-3 w-3" />
+                      Sun glare
+                    </Badge>
+                  </MouseTooltip>
+                ))}
+
+                {cancellationRisk !== 'none' && (
+                  <div className={cn(
+                    "flex items-center gap-1 text-xs font-medium",
+                    cancellationRisk === 'likely' ? "text-destructive" : "text-warning"
+                  )}>
+                    <Ship className="h-3 w-3" />
+                    {cancellationRisk === 'likely' ? 'Crossing may be cancelled' : 'Rough crossing'}
+                  </div>
+                )}
+
                 {hasDanger && (
                   <div className="flex items-center gap-1 text-warning text-xs">
                     <AlertTriangle className="h-3 w-3" />
@@ -192,10 +296,18 @@ export const WaypointCard = ({
               </div>
             ) : weather ? (
               <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground mt-1">
-                <MouseTooltip text="Air temperature">
+                <MouseTooltip text={weather.altitude ? [
+                  'Air temperature, corrected for the height of the road',
+                  `Forecast for ${Math.round(weather.altitude.forecastElevation)} m: ${(weather.temperature - weather.altitude.temperatureCorrection).toFixed(1)}°C`,
+                ] : 'Air temperature'}>
                   <div className="flex items-center gap-1">
                     <Thermometer className="h-3 w-3 text-primary" />
                     <span>{weather.temperature.toFixed(1)}°C</span>
+                    {spread && (
+                      <span className="text-muted-foreground/70">
+                        ({(spread.temperature.min + temperatureCorrection).toFixed(0)} to {(spread.temperature.max + temperatureCorrection).toFixed(0)})
+                      </span>
+                    )}
                   </div>
                 </MouseTooltip>
                 
@@ -206,6 +318,15 @@ export const WaypointCard = ({
                   </div>
                 </MouseTooltip>
                 
+                {weather.altitude && Math.abs(weather.altitude.elevation - weather.altitude.forecastElevation) >= 100 && (
+                  <MouseTooltip text={`Road at ${Math.round(weather.altitude.elevation)} m, forecast for ${Math.round(weather.altitude.forecastElevation)} m`}>
+                    <div className="flex items-center gap-1">
+                      <Mountain className="h-3 w-3 text-primary" />
+                      <span>{Math.round(weather.altitude.elevation)} m</span>
+                    </div>
+                  </MouseTooltip>
+                )}
+                
                 <MouseTooltip text="Visibility">
                   <div className="flex items-center gap-1">
                     <Eye className="h-3 w-3 text-primary" />
@@ -213,6 +334,38 @@ export const WaypointCard = ({
                   </div>
                 </MouseTooltip>
                 
+                {weather.marine && weather.marine.waveHeight !== null && (
+                  <MouseTooltip text="Significant wave height (and wave period)">
+                    <div className="flex items-center gap-1">
+                      <Waves className="h-3 w-3 text-primary" />
+                      <span>
+                        Waves {weather.marine.waveHeight.toFixed(1)} m
+                        {weather.marine.wavePeriod !== null && ` (${weather.marine.wavePeriod.toFixed(0)} s)`}
+                      </span>
+                    </div>
+                  </MouseTooltip>
+                )}
+                
+                {weather.road && (
+                  <MouseTooltip text={[
+                    `Road weather station ${weather.road.stationName}, ${weather.road.distanceKm.toFixed(0)} km away`,
+                    `Measured at ${formatTime(weather.road.measuredAt)}`,
+                    ...(weather.road.friction !== null ? [`Grip: ${weather.road.friction.toFixed(2)}`] : []),
+                  ]}>
+                    <div className={cn(
+                      "flex items-center gap-1",
+                      ['ice', 'frost', 'snow', 'slush'].includes(weather.road.surfaceState) && "text-warning font-medium"
+                    )}>
+                      <Route className="h-3 w-3 text-primary" />
+                      <span>
+                        Road {weather.road.surfaceTemperature !== null && `${weather.road.surfaceTemperature.toFixed(1)}°C `}
+                        {getSurfaceStateLabel(weather.road.surfaceState).toLowerCase()}
+                        {weather.road.airTemperature !== null && ` (air ${weather.road.airTemperature.toFixed(1)}°C)`}
+                      </span>
+                    </div>
+                  </MouseTooltip>
+                )}
+                
                 {weather.precipitationIntensity > 0 && (
                   <MouseTooltip text="Precipitation (mm/h)">
                     <div className="flex items-center gap-1">
@@ -9,6 +9,8 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { WeatherData, Waypoint } from '@/lib/apiUtils';
+import type { DepartureCandidate } from '@/lib/departureScan';
+import { DepartureScanPanel } from './DepartureScanPanel';
 import { getWeatherIconComponent, getWeatherDescription } from '@/lib/weatherUtils';
 import { 
   calculateTripAverageScore, 
@@ -34,6 +36,11 @@ interface WeatherComparisonTableProps {
   weatherDataOffset: Map<number, WeatherData | null>;
   weatherDataOffset3h: Map<number, WeatherData | null>;
   isLoading3hOffset: boolean;
+  departureTime?: Date | null;
+  departureScanResults?: DepartureCandidate[] | null;
+  isScanningDepartures?: boolean;
+  departureScanProgress?: { current: number; total: number };
+  onScanDepartures?: (windowStart: Date, windowEnd: Date, stepMinutes: number) => void;
 }
 
 const assessTrip = (
@@ -91,11 +98,26 @@ export const WeatherComparisonTable = ({
   weatherDataOffset,
   weatherDataOffset3h,
   isLoading3hOffset,
+  departureTime,
+  departureScanResults = null,
+  isScanningDepartures = false,
+  departureScanProgress = { current: 0, total: 0 },
+  onScanDepartures,
 }: WeatherComparisonTableProps) => {
   const loadedCount = Array.from(weatherData.values()).filter(w => w !== null).length;
   
   if (loadedCount === 0 || waypoints.length === 0) return null;
 
+  const scanPanel = departureTime && onScanDepartures ? (
+    <DepartureScanPanel
+      departureTime={departureTime}
+      results={departureScanResults}
+      isScanning={isScanningDepartures}
+      progress={departureScanProgress}
+      onScan={onScanDepartures}
+    />
+  ) : null;
+
   // Calculate current trip score
   const currentTripScore = calculateTripAverageScore(weatherData);
   
@@ -113,6 +135,7 @@ export const WeatherComparisonTable = ({
             </p>
             <ScoreBadge score={currentTripScore} />
           </div>
+          {scanPanel}
         </CardContent>
       </Card>
     );
@@ -273,6 +296,8 @@ export const WeatherComparisonTable = ({
             <span className="w-3 h-3 rounded-full bg-red-500/30"></span> 0-29 Hazardous
           </span>
         </div>
+
+        {scanPanel}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,56 @@
+import { CloudSun } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { useDisabledProviderIds } from '@/hooks/use-weather-provider-settings';
+import { COUNTRY_NAMES } from '@/lib/countries';
+import { FALLBACK_PROVIDER_ID, getWeatherProviders, setProviderEnabled } from '@/lib/weatherProviders';
+
+export const WeatherProviderSettings = () => {
+  const disabledIds = useDisabledProviderIds();
+  const providers = getWeatherProviders();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <CloudSun className="mr-2 h-4 w-4" />
+          Weather sources
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Where several sources cover a point, the one listed first is used. Changes apply to the next plan.
+        </p>
+        <ul className="space-y-2">
+          {providers.map(provider => {
+            const isFallback = provider.id === FALLBACK_PROVIDER_ID;
+            return (
+              <li key={provider.id} className="flex items-center justify-between gap-3">
+                <label htmlFor={`provider-${provider.id}`} className="text-sm">
+                  <span className="font-medium">{provider.name}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {provider.coverage === 'worldwide'
+                      ? isFallback ? 'Everywhere else (always on)' : 'Worldwide'
+                      : provider.coverage.map(code => COUNTRY_NAMES[code]).join(', ')}
+                    {`, up to ${Math.round(provider.maxHorizonHours / 24)} days`}
+                    {' · '}
+                    <a href={provider.attribution.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-foreground">
+                      {provider.attribution.text}
+                    </a>
+                  </span>
+                </label>
+                <Switch
+                  id={`provider-${provider.id}`}
+                  checked={isFallback || !disabledIds.includes(provider.id)}
+                  onCheckedChange={(checked) => setProviderEnabled(provider.id, checked)}
+                  disabled={isFallback}
+                />
+              </li>
+            );
+          })}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
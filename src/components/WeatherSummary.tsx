@@ -9,6 +9,11 @@ import {
   getDrivingScoreLabel, 
   getDrivingScoreColor 
 } from '@/lib/drivingScore';
+import type { EnsembleSpread } from '@/lib/ensemble';
+import { getHighestWarningLevel, WARNING_LEVEL_COLORS, type RouteWarning } from '@/lib/weatherWarnings';
+import { describeIncidentDuration, getClosuresAtEta, type RouteIncident } from '@/lib/incidents';
+import { getCancellationRisk, type CancellationRisk } from '@/lib/ferries';
+import { findDaylightChanges, getDaylightPhase, getSunTimes, type DaylightChange, type DaylightPhase } from '@/lib/solar';
 
 // Get weather icon component for narrative
 const getWeatherNarrativeIcon = (symbol: number): React.ReactNode => {
@@ -28,6 +33,9 @@ const getWeatherNarrativeIcon = (symbol: number): React.ReactNode => {
 interface WeatherSummaryProps {
   waypoints: Waypoint[];
   weatherData: Map<number, WeatherData | null>;
+  ensembleData?: Map<number, EnsembleSpread | null>;
+  warnings?: RouteWarning[];
+  incidents?: RouteIncident[];
   weatherDataOffset?: Map<number, WeatherData | null>;
   weatherDataOffset3h?: Map<number, WeatherData | null>;
   isLoading3hOffset?: boolean;
@@ -273,91 +281,51 @@ const formatLocationWithTime = (location: string, minutes: number): string => {
 };
 
 interface DaylightEvent {
-  type: 'sunrise' | 'sunset';
+  type: DaylightChange['type'];
   time: Date;
   minutesFromStart: number;
   location: string;
 }
 
-const findDaylightEvents = (
-  waypoints: Waypoint[],
-  weatherData: Map<number, WeatherData | null>,
-  startTime: Date
-): DaylightEvent[] => {
-  const events: DaylightEvent[] = [];
-  const seenEvents = new Set<string>();
-  
-  const tripStart = startTime.getTime();
-  const tripEnd = waypoints[waypoints.length - 1].arrivalTime.getTime();
-  
-  // First pass: collect all potential sunrise/sunset events
-  const potentialEvents: { type: 'sunrise' | 'sunset'; time: Date; waypointIndex: number }[] = [];
-  
-  waypoints.forEach((_, index) => {
-    const weather = weatherData.get(index);
-    if (!weather) return;
-    
-    if (weather.sunrise && !isNaN(weather.sunrise.getTime())) {
-      const sunriseTime = weather.sunrise.getTime();
-      const key = `sunrise-${weather.sunrise.toISOString().split('T')[0]}`;
-      if (sunriseTime >= tripStart && sunriseTime <= tripEnd && !seenEvents.has(key)) {
-        seenEvents.add(key);
-        potentialEvents.push({ type: 'sunrise', time: weather.sunrise, waypointIndex: index });
-      }
-    }
-    
-    if (weather.sunset && !isNaN(weather.sunset.getTime())) {
-      const sunsetTime = weather.sunset.getTime();
-      const key = `sunset-${weather.sunset.toISOString().split('T')[0]}`;
-      if (sunsetTime >= tripStart && sunsetTime <= tripEnd && !seenEvents.has(key)) {
-        seenEvents.add(key);
-        potentialEvents.push({ type: 'sunset', time: weather.sunset, waypointIndex: index });
-      }
-    }
-  });
-  
-  // Second pass: for each event, find the waypoint closest in time to get accurate sunrise/sunset
-  potentialEvents.forEach(event => {
-    const eventTime = event.time.getTime();
-    
-    // Find waypoint closest in time to the event
-    let closestIndex = 0;
-    let closestDiff = Math.abs(waypoints[0].arrivalTime.getTime() - eventTime);
-    
-    waypoints.forEach((waypoint, index) => {
-      const diff = Math.abs(waypoint.arrivalTime.getTime() - eventTime);
-      if (diff < closestDiff) {
-        closestDiff = diff;
-        closestIndex = index;
-      }
-    });
-    
-    // Use the sunrise/sunset from the closest waypoint (location-accurate)
-    const closestWeather = weatherData.get(closestIndex);
-    if (closestWeather) {
-      const accurateTime = event.type === 'sunrise' ? closestWeather.sunrise : closestWeather.sunset;
-      if (accurateTime) {
-        events.push({
-          type: event.type,
-          time: accurateTime,
-          minutesFromStart: (accurateTime.getTime() - tripStart) / (1000 * 60),
-          location: waypoints[closestIndex].name
-        });
-      }
-    }
+// Sunrises, sunsets and the ends of civil twilight along the drive, named after
+// the waypoint reached closest in time
+const findDaylightEvents = (waypoints: Waypoint[], startTime: Date): DaylightEvent[] => {
+  const changes = findDaylightChanges(waypoints.map(({ arrivalTime, lat, lon }) => ({ time: arrivalTime, lat, lon })));
+  return changes.map(change => {
+    const closest = waypoints.reduce((a, b) =>
+      Math.abs(b.arrivalTime.getTime() - change.time.getTime()) < Math.abs(a.arrivalTime.getTime() - change.time.getTime()) ? b : a
+    );
+    return {
+      type: change.type,
+      time: change.time,
+      minutesFromStart: (change.time.getTime() - startTime.getTime()) / (1000 * 60),
+      location: closest.name
+    };
   });
-  
-  return events.sort((a, b) => a.minutesFromStart - b.minutesFromStart);
 };
 
 const formatTime = (date: Date): string => {
   return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 };
 
-const isDaytime = (time: Date, sunrise: Date | null, sunset: Date | null): boolean => {
-  if (!sunrise || !sunset) return true; // Assume daytime if no data
-  const t = time.getTime();
-  return t >= sunrise.getTime() && t <= sunset.getTime();
+const getDaylightPhaseAt = (waypoint: Waypoint, time: Date = waypoint.arrivalTime): DaylightPhase => {
+  return getDaylightPhase(time, waypoint.lat, waypoint.lon);
+};
+
+// Midnight sun or polar night somewhere on the trip
+const getPolarDaylightLine = (waypoints: Waypoint[]): string | null => {
+  const sunTimes = waypoints.map(waypoint => ({ waypoint, times: getSunTimes(waypoint.arrivalTime, waypoint.lat, waypoint.lon) }));
+  const polarNight = sunTimes.find(({ times }) => times.polarNight);
+  if (polarNight) {
+    const { waypoint, times } = polarNight;
+    return times.civilDawn && times.civilDusk
+      ? `Polar night around ${waypoint.name}: the sun stays below the horizon, with twilight only between ${formatTime(times.civilDawn)} and ${formatTime(times.civilDusk)}.`
+      : `Polar night around ${waypoint.name}: the sun stays below the horizon and it stays dark all day.`;
+  }
+  if (sunTimes.every(({ times }) => times.polarDay)) {
+    return 'Midnight sun: the sun stays above the horizon for your whole trip.';
+  }
+  return null;
 };
 
 interface NarrativeLine {
@@ -378,11 +346,11 @@ const generateNarrative = (
   const endTime = waypoints[waypoints.length - 1].arrivalTime;
   
   // Get daylight events
-  const daylightEvents = findDaylightEvents(waypoints, weatherData, startTime);
+  const daylightEvents = findDaylightEvents(waypoints, startTime);
   
   // Check initial daylight status
-  const firstWeather = weatherData.get(0);
-  const startsDuringDay = firstWeather ? isDaytime(startTime, firstWeather.sunrise, firstWeather.sunset) : true;
+  const startPhase = getDaylightPhaseAt(waypoints[0], startTime);
+  const polarLine = getPolarDaylightLine(waypoints);
 
   // Group waypoints by similar weather conditions
   interface WeatherSegment {
@@ -434,7 +402,13 @@ const generateNarrative = (
   }
 
   // Add initial daylight context
-  if (!startsDuringDay) {
+  if (polarLine) {
+    const PolarIcon = polarLine.startsWith('Midnight') ? Sun : Moon;
+    narrative.push({ icon: <PolarIcon className="inline-block w-4 h-4 mr-1 align-text-bottom" />, text: polarLine, severity: 'none' });
+  }
+  if (startPhase === 'civil') {
+    narrative.push({ icon: <Moon className="inline-block w-4 h-4 mr-1 align-text-bottom" />, text: 'You\'ll be starting your journey in twilight.', severity: 'none' });
+  } else if (startPhase !== 'day') {
     narrative.push({ icon: <Moon className="inline-block w-4 h-4 mr-1 align-text-bottom" />, text: 'You\'ll be starting your journey in darkness.', severity: 'none' });
   }
 
@@ -473,10 +447,14 @@ const generateNarrative = (
         const timeStr = formatTime(event.time);
         const iconClass = "inline-block w-4 h-4 mr-1 align-text-bottom";
         
-        if (event.type === 'sunrise') {
+        if (event.type === 'dawn') {
+          narrative.push({ icon: <Sunrise className={iconClass} />, text: `Twilight from ${timeStr} near ${event.location}.`, severity: 'none' });
+        } else if (event.type === 'sunrise') {
           narrative.push({ icon: <Sunrise className={iconClass} />, text: `Sunrise at ${timeStr}. Daylight driving conditions ahead.`, severity: 'none' });
+        } else if (event.type === 'sunset') {
+          narrative.push({ icon: <Sunset className={iconClass} />, text: `Sunset at ${timeStr}. Twilight follows for a while.`, severity: 'none' });
         } else {
-          narrative.push({ icon: <Sunset className={iconClass} />, text: `Sunset at ${timeStr}. You'll continue in darkness after this.`, severity: 'none' });
+          narrative.push({ icon: <Moon className={iconClass} />, text: `Dark from ${timeStr}. You'll continue in darkness after this.`, severity: 'none' });
         }
       }
     });
@@ -488,8 +466,8 @@ const generateNarrative = (
   if (lastWeather && lastWaypoint) {
     const icon = getWeatherNarrativeIcon(lastWeather.weatherSymbol);
     const temp = lastWeather.temperature.toFixed(0);
-    const arrivalDaylight = isDaytime(endTime, lastWeather.sunrise, lastWeather.sunset);
-    const daylightNote = arrivalDaylight ? '' : ' It will be dark when you arrive.';
+    const arrivalPhase = getDaylightPhaseAt(lastWaypoint, endTime);
+    const daylightNote = arrivalPhase === 'day' ? '' : arrivalPhase === 'civil' ? ' You\'ll arrive in twilight.' : ' It will be dark when you arrive.';
     const conditionSeverity = getConditionSeverity(lastWeather);
     narrative.push({ icon, text: `At your destination (${lastWaypoint.name}), it will be ${temp}°C with ${getWeatherDescription(lastWeather.weatherSymbol).toLowerCase()}.${daylightNote}`, severity: conditionSeverity });
   }
@@ -590,9 +568,76 @@ const get3hWaitMessage = (
   return 'Waiting 3 hours will not improve conditions for your trip.';
 };
 
+// How far the forecast models agree, pointing out the least certain part of the trip
+const getConfidenceMessage = (
+  waypoints: Waypoint[],
+  ensembleData: Map<number, EnsembleSpread | null>
+): string | null => {
+  const compared = waypoints
+    .map((waypoint, index) => ({ waypoint, spread: ensembleData.get(index) }))
+    .filter((item): item is { waypoint: Waypoint; spread: EnsembleSpread } => !!item.spread);
+  if (compared.length === 0) return null;
+
+  // Least confident waypoint; among equals, the one where the model scores differ most
+  const rank = { high: 0, medium: 1, low: 2 };
+  const uncertainty = (spread: EnsembleSpread) => rank[spread.confidence] * 1000 + spread.score.max - spread.score.min;
+  const widest = compared.reduce((a, b) => (uncertainty(b.spread) > uncertainty(a.spread) ? b : a));
+  const scoreRange = `${widest.spread.score.min}–${widest.spread.score.max}`;
+
+  if (compared.every(item => item.spread.confidence === 'high')) {
+    return `📊 Forecast models agree closely along the route (${widest.spread.modelCount} models compared).`;
+  }
+  const place = isUnnamedLocation(widest.waypoint.name)
+    ? `at ${formatTime(widest.waypoint.arrivalTime)}`
+    : `near ${widest.waypoint.name}`;
+  if (widest.spread.confidence === 'low') {
+    return `📊 Low forecast confidence ${place}: models give scores of ${scoreRange}.`;
+  }
+  return `📊 Medium forecast confidence ${place}: models give scores of ${scoreRange}.`;
+};
+
+interface CrossingRisk {
+  waypoint: Waypoint;
+  weather: WeatherData;
+  risk: Exclude<CancellationRisk, 'none'>;
+}
+
+// The roughest point of every ferry crossing where wind or waves could disrupt it
+const getCrossingRisks = (
+  waypoints: Waypoint[],
+  weatherData: Map<number, WeatherData | null>
+): CrossingRisk[] => {
+  const roughest = new Map<number, CrossingRisk>();
+  waypoints.forEach((waypoint, index) => {
+    const weather = weatherData.get(index);
+    if (waypoint.ferryIndex === undefined || !weather) return;
+    const risk = getCancellationRisk(weather);
+    if (risk === 'none') return;
+    const current = roughest.get(waypoint.ferryIndex);
+    if (!current || (risk === 'likely' && current.risk === 'possible') ||
+        (risk === current.risk && weather.windSpeed > current.weather.windSpeed)) {
+      roughest.set(waypoint.ferryIndex, { waypoint, weather, risk });
+    }
+  });
+  return [...roughest.values()];
+};
+
+const getCrossingMessage = ({ waypoint, weather, risk }: CrossingRisk): string => {
+  const conditions = weather.marine && weather.marine.waveHeight !== null
+    ? `${weather.windSpeed.toFixed(0)} m/s wind, ${weather.marine.waveHeight.toFixed(1)} m waves`
+    : `${weather.windSpeed.toFixed(0)} m/s wind`;
+  if (risk === 'likely') {
+    return `⛴️ ${waypoint.name} around ${formatTime(waypoint.arrivalTime)}: ${conditions}. The crossing could be cancelled – check with the ferry operator before you leave.`;
+  }
+  return `⛴️ ${waypoint.name} around ${formatTime(waypoint.arrivalTime)}: ${conditions}. Expect a rough crossing and possible delays.`;
+};
+
 export const WeatherSummary = ({ 
   waypoints, 
   weatherData, 
+  ensembleData,
+  warnings = [],
+  incidents = [],
   weatherDataOffset, 
   weatherDataOffset3h,
   isLoading3hOffset,
@@ -681,6 +726,7 @@ export const WeatherSummary = ({
   const assessment = assessTrip(waypoints, weatherData);
   const overallMessage = getOverallMessage(assessment, waypoints, weatherData);
   const narrative = generateNarrative(waypoints, weatherData);
+  const confidenceMessage = ensembleData ? getConfidenceMessage(waypoints, ensembleData) : null;
   
   // Calculate offset assessment if offset data is available (use pre-calculated offsetLoadedCount)
   const offsetAssessment = offsetLoadedCount > 0 && weatherDataOffset
@@ -697,9 +743,20 @@ export const WeatherSummary = ({
     : null;
   const wait3hMessage = get3hWaitMessage(assessment, offset3hAssessment, isLoading3hOffset || false, weatherData, weatherDataOffset3h);
 
+  // An orange or red official warning on the route outranks what the forecast numbers say
+  const highestWarningLevel = getHighestWarningLevel(warnings);
+  // A closure in force when the trip gets there, or a crossing that may be cancelled, does too
+  const closures = getClosuresAtEta(incidents);
+  const crossingRisks = getCrossingRisks(waypoints, weatherData);
+  const severity: SeverityLevel =
+    highestWarningLevel === 'orange' || highestWarningLevel === 'red' || closures.length > 0 ||
+    crossingRisks.some(({ risk }) => risk === 'likely')
+      ? 'warning'
+      : (highestWarningLevel === 'yellow' || crossingRisks.length > 0) && assessment.severity === 'good' ? 'caution' : assessment.severity;
+
   const getIcon = () => {
     if (isLoading) return <Loader2 className="h-5 w-5 animate-spin" />;
-    switch (assessment.severity) {
+    switch (severity) {
       case 'warning':
         return <AlertTriangle className="h-5 w-5" />;
       case 'caution':
@@ -710,7 +767,7 @@ export const WeatherSummary = ({
   };
 
   const getTitle = () => {
-    switch (assessment.severity) {
+    switch (severity) {
       case 'warning':
         return 'Weather Alert';
       case 'caution':
@@ -722,7 +779,7 @@ export const WeatherSummary = ({
 
   return (
     <Alert 
-      variant={assessment.severity === 'warning' ? 'destructive' : 'default'} 
+      variant={severity === 'warning' ? 'destructive' : 'default'} 
       className="animate-fade-in"
     >
       {getIcon()}
@@ -739,6 +796,61 @@ export const WeatherSummary = ({
           </div>
         )}
         <p className="mt-1 text-sm font-medium">{overallMessage}</p>
+        {warnings.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {warnings.map(({ warning, enters, leaves }) => (
+              <li key={warning.id} className="flex items-start gap-2 text-sm">
+                <span
+                  className="mt-1.5 h-2.5 w-2.5 flex-shrink-0 rounded-full"
+                  style={{ backgroundColor: WARNING_LEVEL_COLORS[warning.level] }}
+                />
+                <span>
+                  <span className="font-medium">{warning.headline}</span>
+                  <span className="text-muted-foreground">
+                    {' '}– on your route {formatTime(enters)}
+                    {leaves.getTime() - enters.getTime() >= 60000 && `–${formatTime(leaves)}`}
+                    {' · '}
+                    {warning.web ? (
+                      <a href={warning.web} target="_blank" rel="noopener noreferrer" className="underline hover:text-foreground">
+                        {warning.senderName}
+                      </a>
+                    ) : warning.senderName}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {closures.map(({ incident, eta }) => (
+          <p key={incident.id} className="mt-2 text-sm font-medium">
+            ⛔ Road closed on your route at {formatTime(eta)}: {incident.title}. Consider another route.
+          </p>
+        ))}
+        {crossingRisks.map(crossingRisk => (
+          <p key={crossingRisk.waypoint.ferryIndex} className={`mt-2 text-sm ${crossingRisk.risk === 'likely' ? 'font-medium' : ''}`}>
+            {getCrossingMessage(crossingRisk)}
+          </p>
+        ))}
+        {incidents.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {incidents.map(({ incident, eta, distanceFromStartKm }) => (
+              <li key={incident.id} className="flex items-start gap-2 text-sm">
+                <span className={`mt-1.5 h-2.5 w-2.5 flex-shrink-0 rounded-full ${incident.isClosure ? 'bg-red-600' : 'bg-amber-500'}`} />
+                <span>
+                  <span className="font-medium">{incident.title}</span>
+                  <span className="text-muted-foreground">
+                    {' '}– {Math.round(distanceFromStartKm)} km, you pass at {formatTime(eta)}
+                    {' · '}
+                    {describeIncidentDuration(incident)}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {confidenceMessage && (
+          <p className="mt-1 text-sm text-muted-foreground">{confidenceMessage}</p>
+        )}
         {/* Only show wait messages if conditions aren't already excellent */}
         {calculateTripAverageScore(weatherData) !== null && calculateTripAverageScore(weatherData)! <= 90 && (
           <>
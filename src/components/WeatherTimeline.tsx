@@ -1,18 +1,56 @@
-import { CloudSun } from 'lucide-react';
+import { Fragment } from 'react';
+import { CloudSun, Ship } from 'lucide-react';
 import { WaypointCard } from './WaypointCard';
-import type { Waypoint, WeatherData } from '@/lib/apiUtils';
+import type { RouteLeg, Waypoint, WeatherData } from '@/lib/apiUtils';
+import type { EnsembleSpread } from '@/lib/ensemble';
+import type { FerryCrossing } from '@/lib/ferries';
+import type { GlareSegment } from '@/lib/glare';
+import type { RouteWarning } from '@/lib/weatherWarnings';
 
 interface WeatherTimelineProps {
   waypoints: Waypoint[];
   weatherData: Map<number, WeatherData | null>;
+  ensembleData?: Map<number, EnsembleSpread | null>;
+  warnings?: RouteWarning[];
+  glare?: GlareSegment[];
   loadingStates: Map<number, boolean>;
+  legs?: RouteLeg[];
+  ferries?: FerryCrossing[];
 }
 
+const formatLegDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
 export const WeatherTimeline = ({ 
   waypoints, 
   weatherData, 
-  loadingStates 
+  ensembleData,
+  warnings = [],
+  glare = [],
+  loadingStates,
+  legs = [],
+  ferries = []
 }: WeatherTimelineProps) => {
+  const isMultiLeg = legs.length > 1;
+
+  // A new leg starts at the trip start and right after every via-point
+  const getLegStartingAt = (index: number): number | null => {
+    if (!isMultiLeg) return null;
+    if (index === 0) return 0;
+    const previous = waypoints[index - 1];
+    return previous.kind === 'via' ? previous.legIndex + 1 : null;
+  };
+
+  // A crossing is introduced at its first waypoint
+  const getFerryStartingAt = (index: number): FerryCrossing | null => {
+    const { ferryIndex } = waypoints[index];
+    if (ferryIndex === undefined || waypoints[index - 1]?.ferryIndex === ferryIndex) return null;
+    return ferries[ferryIndex] ?? null;
+  };
+
   return (
     <div className="space-y-4 animate-fade-in">
       <div className="flex items-center gap-2 text-lg font-semibold">
@@ -21,17 +59,41 @@ export const WeatherTimeline = ({
       </div>
       
       <div className="space-y-3">
-        {waypoints.map((waypoint, index) => (
-          <WaypointCard
-            key={index}
-            waypoint={waypoint}
-            weather={weatherData.get(index) || null}
-            isLoading={loadingStates.get(index) || false}
-            index={index}
-            isFirst={index === 0}
-            isLast={index === waypoints.length - 1}
-          />
-        ))}
+        {waypoints.map((waypoint, index) => {
+          const legStart = getLegStartingAt(index);
+          const leg = legStart !== null ? legs[legStart] : null;
+          const ferry = getFerryStartingAt(index);
+          return (
+            <Fragment key={index}>
+              {leg && (
+                <div className="flex items-center gap-2 pt-1 text-xs font-medium text-muted-foreground">
+                  <span>Leg {legStart + 1}</span>
+                  <span className="flex-1 border-t border-dashed border-border" />
+                  <span>{Math.round(leg.distance)} km · {formatLegDuration(leg.duration)}</span>
+                </div>
+              )}
+              {ferry && (
+                <div className="flex items-center gap-2 pt-1 text-xs font-medium text-sky-700 dark:text-sky-300">
+                  <Ship className="h-3.5 w-3.5" />
+                  <span>{ferry.name}</span>
+                  <span className="flex-1 border-t border-dashed border-sky-500/50" />
+                  <span>{Math.round(ferry.endKm - ferry.startKm)} km · {formatLegDuration(ferry.endSeconds - ferry.startSeconds)} at sea</span>
+                </div>
+              )}
+              <WaypointCard
+                waypoint={waypoint}
+                weather={weatherData.get(index) || null}
+                spread={ensembleData?.get(index) ?? null}
+                warnings={warnings.filter(routeWarning => routeWarning.waypointIndices.includes(index))}
+                glare={glare.filter(segment => segment.waypointIndices.includes(index))}
+                isLoading={loadingStates.get(index) || false}
+                index={index}
+                isFirst={index === 0}
+                isLast={index === waypoints.length - 1}
+              />
+            </Fragment>
+          );
+        })}
       </div>
     </div>
   );
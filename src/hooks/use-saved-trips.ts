@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getSavedTripsState, subscribeSavedTrips } from "@/lib/savedTrips";
+
+export function useSavedTrips() {
+  return useSyncExternalStore(subscribeSavedTrips, getSavedTripsState);
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getDisabledProviderIds, subscribeProviderSettings } from "@/lib/weatherProviders";
+
+export function useDisabledProviderIds() {
+  return useSyncExternalStore(subscribeProviderSettings, getDisabledProviderIds);
+}
@@ -1,3 +1,13 @@
+import { getCachedSeries, roundCoordinate, type ForecastSeries, type ForecastStep } from './forecastCache';
+import { selectWeatherProviders, type WeatherProvider } from './weatherProviders';
+import { DEFAULT_SAMPLING, getSampleDriveTimes, type SamplingStrategy } from './sampling';
+import { getCountryAt, type CountryCode } from './countries';
+import { buildRouteTimeline, getPositionAtDriveSeconds, type RouteTimeline } from './routeGeometry';
+import type { RoadWeatherReading } from './roadWeather';
+import { findFerryCrossings, getFerryIndexAt, type FerryCrossing, type MarineConditions } from './ferries';
+import type { AltitudeCorrection } from './elevation';
+import { getSunTimes } from './solar';
+
 export interface Coordinates {
   lat: number;
   lon: number;
@@ -10,6 +20,13 @@ export interface RouteStep {
   ref?: string; // Road reference (e.g., "E4", "E6")
   distance: number;
   duration: number;
+  legIndex: number; // Which leg of a multi-stop route this step belongs to
+  mode: string; // OSRM travel mode: "driving", "ferry", ...
+}
+
+export interface RouteLeg {
+  distance: number; // in km
+  duration: number; // in seconds
 }
 
 export interface RouteData {
@@ -17,8 +34,15 @@ export interface RouteData {
   duration: number; // in seconds
   steps: RouteStep[];
   geometry: [number, number][];
+  legs: RouteLeg[];
+  stops: [number, number][]; // Snapped [lat, lon] of start, via-points and destination
+  timeline: RouteTimeline; // Cumulative driving time and distance at each geometry point
+  ferries: FerryCrossing[]; // Sea legs, in route order
 }
 
+// start/end = trip endpoints, via = intermediate stop, break = scheduled rest, sample = weather sample point
+export type WaypointKind = 'start' | 'via' | 'break' | 'sample' | 'end';
+
 export interface Waypoint {
   lat: number;
   lon: number;
@@ -26,6 +50,51 @@ export interface Waypoint {
   roadName?: string;
   arrivalTime: Date;
   distanceFromStart: number;
+  driveSeconds: number; // Driving time from departure, excluding stops and breaks
+  kind: WaypointKind;
+  legIndex: number; // Leg the waypoint lies on (via-points belong to the leg they end)
+  departureTime?: Date; // Set for via-points and breaks: when driving resumes after the dwell
+  country?: CountryCode | null; // Country the waypoint lies in (null at sea or outside the known countries)
+  ferryIndex?: number; // Set when the waypoint lies on a ferry crossing (index into RouteData.ferries)
+}
+
+// A place as entered in the route form. Coordinates are known when it came from a
+// saved trip, favourite or earlier search; otherwise the name is geocoded when planning.
+export interface PlaceInput {
+  name: string;
+  coordinates: Coordinates | null;
+}
+
+export interface ViaStop extends PlaceInput {
+  dwellMinutes: number; // Planned time spent at the stop (delivery, lunch, ...)
+}
+
+// Rest rule: stop for durationMinutes after every everyHours of driving
+export interface BreakRule {
+  everyHours: number;
+  durationMinutes: number;
+}
+
+// Lower bounds of a break rule, shared by the route form and shared links
+export const MIN_BREAK_EVERY_HOURS = 1;
+export const MIN_BREAK_MINUTES = 5;
+
+// Trip-wide planning options chosen in the route form
+export interface TripOptions {
+  breakRule: BreakRule | null;
+  sampling: SamplingStrategy;
+  compareModels: boolean; // Also fetch several forecast models to show their spread
+}
+
+export const DEFAULT_TRIP_OPTIONS: TripOptions = {
+  breakRule: null,
+  sampling: DEFAULT_SAMPLING,
+  compareModels: false
+};
+
+export interface WaypointOptions extends Partial<TripOptions> {
+  vias?: ViaStop[];
+  extraSampleTimes?: number[]; // Additional driving times to sample (adaptive refinement)
 }
 
 export interface WeatherData {
@@ -37,11 +106,27 @@ export interface WeatherData {
   weatherSymbol: number;
   sunrise: Date | null;
   sunset: Date | null;
+  road?: RoadWeatherReading; // Nearest road weather station, for waypoints reached soon
+  marine?: MarineConditions; // Sea state, for waypoints on a ferry crossing
+  forecastElevation?: number; // Height in m the provider's values refer to, when it says
+  altitude?: AltitudeCorrection; // Set once the forecast has been corrected to the road's height
 }
 
-// Geocode a location name to coordinates using Nominatim (worldwide)
-export const geocodeLocation = async (name: string): Promise<Coordinates> => {
-  const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(name)}&limit=1`;
+// A geocoding hit with Nominatim's importance (0-1, higher = more prominent place)
+export interface GeocodeCandidate extends Coordinates {
+  importance: number;
+}
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+  importance?: number;
+}
+
+// Look up the places matching a name using Nominatim (worldwide), most important first
+export const geocodeCandidates = async (name: string, limit: number = 5): Promise<GeocodeCandidate[]> => {
+  const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(name)}&limit=${limit}`;
   
   const response = await fetch(url, {
     headers: {
@@ -53,26 +138,109 @@ export const geocodeLocation = async (name: string): Promise<Coordinates> => {
     throw new Error('Geocoding request failed');
   }
   
-  const data = await response.json();
+  const data: NominatimResult[] = await response.json();
   
   if (data.length === 0) {
     throw new Error(`Location "${name}" not found`);
   }
   
+  return data.map(result => ({
+    lat: parseFloat(result.lat),
+    lon: parseFloat(result.lon),
+    displayName: result.display_name,
+    importance: result.importance ?? 0
+  }));
+};
+
+// Geocode a location name to coordinates, using the most important match
+export const geocodeLocation = async (name: string): Promise<Coordinates> => {
+  const [best] = await geocodeCandidates(name, 1);
+  return best;
+};
+
+// Subset of the OSRM route response that we read
+interface OsrmStep {
+  maneuver: { location: [number, number] };
+  name: string;
+  ref?: string;
+  distance: number;
+  duration: number;
+  mode: string;
+}
+
+interface OsrmLeg {
+  distance: number;
+  duration: number;
+  steps: OsrmStep[];
+  annotation?: {
+    duration: number[]; // seconds per geometry segment
+    distance: number[]; // meters per geometry segment
+  };
+}
+
+interface OsrmWaypoint {
+  location: [number, number];
+}
+
+interface OsrmRoute {
+  distance: number;
+  duration: number;
+  legs: OsrmLeg[];
+  geometry: { coordinates: [number, number][] };
+}
+
+// Convert one OSRM route into our RouteData
+const parseOsrmRoute = (route: OsrmRoute, waypoints: OsrmWaypoint[]): RouteData => {
+  const steps: RouteStep[] = route.legs.flatMap((leg, legIndex) =>
+    leg.steps.map(step => ({
+      location: step.maneuver.location,
+      name: step.name || 'Unnamed road',
+      ref: step.ref || undefined, // E-road reference (e.g., "E4", "E6")
+      distance: step.distance,
+      duration: step.duration,
+      legIndex,
+      mode: step.mode
+    }))
+  );
+  
+  const legs: RouteLeg[] = route.legs.map(leg => ({
+    distance: leg.distance / 1000, // Convert to km
+    duration: leg.duration
+  }));
+  
+  const geometry: [number, number][] = route.geometry.coordinates.map(coord => [coord[1], coord[0]]);
+  
+  // Per-segment annotations from all legs, used to place points by actual driving time
+  const segmentDurations = route.legs.flatMap(leg => leg.annotation?.duration ?? []);
+  const segmentDistances = route.legs.flatMap(leg => leg.annotation?.distance ?? []);
+  
+  const timeline = buildRouteTimeline(geometry, route.duration, route.distance / 1000, segmentDurations, segmentDistances);
+  
   return {
-    lat: parseFloat(data[0].lat),
-    lon: parseFloat(data[0].lon),
-    displayName: data[0].display_name
+    distance: route.distance / 1000, // Convert to km
+    duration: route.duration,
+    steps,
+    geometry,
+    legs,
+    stops: waypoints.map(wp => [wp.location[1], wp.location[0]]),
+    timeline,
+    ferries: findFerryCrossings(steps, geometry, timeline)
   };
 };
 
-// Get route from OSRM
-// Get route from OSRM (using HTTPS to avoid mixed content issues)
-export const getRoute = async (
+// Get routes from OSRM (using HTTPS to avoid mixed content issues)
+// Via-points are visited in order, producing one leg per consecutive pair of stops.
+// The first route is OSRM's recommendation; up to maxAlternatives more may follow.
+// OSRM only offers alternatives for routes without via-points.
+export const getRoutes = async (
   from: Coordinates,
-  to: Coordinates
-): Promise<RouteData> => {
-  const url = `https://router.project-osrm.org/route/v1/driving/${from.lon},${from.lat};${to.lon},${to.lat}?overview=full&geometries=geojson&steps=true`;
+  to: Coordinates,
+  via: Coordinates[] = [],
+  maxAlternatives: number = 3
+): Promise<RouteData[]> => {
+  const coordinates = [from, ...via, to].map(stop => `${stop.lon},${stop.lat}`).join(';');
+  const alternatives = via.length === 0 && maxAlternatives > 0 ? `&alternatives=${maxAlternatives}` : '';
+  const url = `https://router.project-osrm.org/route/v1/driving/${coordinates}?overview=full&geometries=geojson&steps=true&annotations=duration,distance${alternatives}`;
   
   const response = await fetch(url);
   
@@ -86,25 +254,29 @@ export const getRoute = async (
     throw new Error('No route found between locations');
   }
   
-  const route = data.routes[0];
-  const steps: RouteStep[] = route.legs[0].steps.map((step: any) => ({
-    location: step.maneuver.location,
-    name: step.name || 'Unnamed road',
-    ref: step.ref || undefined, // E-road reference (e.g., "E4", "E6")
-    distance: step.distance,
-    duration: step.duration
-  }));
-  
-  return {
-    distance: route.distance / 1000, // Convert to km
-    duration: route.duration,
-    steps,
-    geometry: route.geometry.coordinates.map((coord: [number, number]) => [coord[1], coord[0]])
-  };
+  return data.routes
+    .slice(0, maxAlternatives + 1)
+    .map((route: OsrmRoute) => parseOsrmRoute(route, data.waypoints));
 };
 
-// Reverse geocode to get municipality/region name
+// Get the recommended route from OSRM
+export const getRoute = async (
+  from: Coordinates,
+  to: Coordinates,
+  via: Coordinates[] = []
+): Promise<RouteData> => {
+  const [route] = await getRoutes(from, to, via, 0);
+  return route;
+};
+
+const reverseGeocodeCache = new Map<string, { municipality: string; road: string }>();
+
+// Reverse geocode to get municipality/region name (successful lookups are cached per ~1 km)
 export const reverseGeocode = async (lat: number, lon: number): Promise<{ municipality: string; road: string }> => {
+  const cacheKey = `${roundCoordinate(lat)},${roundCoordinate(lon)}`;
+  const cached = reverseGeocodeCache.get(cacheKey);
+  if (cached) return cached;
+  
   try {
     const url = `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lon}&zoom=10&addressdetails=1`;
     
@@ -126,325 +298,348 @@ export const reverseGeocode = async (lat: number, lon: number): Promise<{ munici
     // Get road name if available
     const road = address.road || '';
     
-    return { municipality, road };
+    const result = { municipality, road };
+    reverseGeocodeCache.set(cacheKey, result);
+    return result;
   } catch (error) {
     console.warn('Reverse geocoding failed:', error);
     return { municipality: '', road: '' };
   }
 };
 
-// Calculate waypoints at hourly intervals
+interface Pause {
+  driveSeconds: number; // Driving time from departure at which the pause starts
+  durationSeconds: number;
+  kind: 'via' | 'break';
+  viaIndex?: number;
+}
+
+// Breaks closer than this to a following stop are merged into that stop
+const BREAK_MERGE_SECONDS = 15 * 60;
+
+// Build the ordered list of dwells at via-points and rest breaks along the drive.
+// A ferry crossing at least as long as a break counts as the rest; a break that
+// falls due during a shorter crossing is taken when the ferry arrives.
+const buildPauses = (
+  legEndDurations: number[],
+  vias: ViaStop[],
+  breakRule: BreakRule | null,
+  totalDuration: number,
+  ferries: FerryCrossing[] = []
+): Pause[] => {
+  const pauses: Pause[] = [];
+  const breakInterval = breakRule && breakRule.everyHours > 0 ? breakRule.everyHours * 3600 : null;
+  const breakDuration = breakRule ? breakRule.durationMinutes * 60 : 0;
+  const restingCrossings = ferries.filter(crossing => crossing.endSeconds - crossing.startSeconds >= breakDuration);
+  let lastRest = 0;
+  
+  const addBreaksBefore = (driveSeconds: number) => {
+    if (!breakInterval) return;
+    while (lastRest + breakInterval < driveSeconds - BREAK_MERGE_SECONDS) {
+      const due = lastRest + breakInterval;
+      const restingCrossing = restingCrossings.find(crossing => crossing.endSeconds > lastRest && crossing.startSeconds <= due);
+      if (restingCrossing) {
+        lastRest = restingCrossing.endSeconds;
+        continue;
+      }
+      const ferryIndex = getFerryIndexAt(ferries, due);
+      lastRest = ferryIndex === undefined ? due : ferries[ferryIndex].endSeconds;
+      pauses.push({ driveSeconds: lastRest, durationSeconds: breakDuration, kind: 'break' });
+    }
+  };
+  
+  vias.forEach((via, index) => {
+    const driveSeconds = legEndDurations[index];
+    if (driveSeconds === undefined) return;
+    addBreaksBefore(driveSeconds);
+    const durationSeconds = Math.max(0, via.dwellMinutes) * 60;
+    pauses.push({ driveSeconds, durationSeconds, kind: 'via', viaIndex: index });
+    // A stop at least as long as a regular break counts as a rest
+    if (breakInterval && durationSeconds >= breakDuration) {
+      lastRest = driveSeconds;
+    }
+  });
+  addBreaksBefore(totalDuration);
+  
+  return pauses;
+};
+
+// Clock offset (seconds after departure) for a given driving time, including all
+// pauses that started before it. A point exactly at a pause gets its arrival time.
+const toClockSeconds = (driveSeconds: number, pauses: Pause[]): number => {
+  let clockSeconds = driveSeconds;
+  for (const pause of pauses) {
+    if (pause.driveSeconds < driveSeconds) {
+      clockSeconds += pause.durationSeconds;
+    }
+  }
+  return clockSeconds;
+};
+
+// Position, distance and road name at a given driving time along the route
+const getRoutePositionAt = (
+  route: RouteData,
+  driveSeconds: number
+): { point: [number, number]; distanceKm: number; roadName: string } => {
+  const { point, distanceKm } = getPositionAtDriveSeconds(route.geometry, route.timeline, driveSeconds);
+  
+  // Find nearest step name (road name from OSRM)
+  let accumulatedDuration = 0;
+  let roadName = '';
+  let roadRef = '';
+  for (const step of route.steps) {
+    accumulatedDuration += step.duration;
+    if (accumulatedDuration >= driveSeconds) {
+      roadName = step.name || '';
+      roadRef = step.ref || '';
+      break;
+    }
+  }
+  
+  // Prioritize E-road reference over street name
+  return { point, distanceKm, roadName: roadRef || roadName };
+};
+
+// Calculate waypoints according to the sampling strategy (hourly by default), plus one
+// waypoint at each via-point and scheduled break. Arrival times include the dwell at earlier stops.
 export const calculateWaypoints = async (
   route: RouteData,
   departureTime: Date,
   fromName: string,
-  toName: string
+  toName: string,
+  options: WaypointOptions = {}
 ): Promise<Waypoint[]> => {
-  const waypoints: Waypoint[] = [];
-  const totalDurationHours = route.duration / 3600;
-  const hourCount = Math.ceil(totalDurationHours);
+  const {
+    vias = [],
+    breakRule = null,
+    sampling = DEFAULT_SAMPLING,
+    extraSampleTimes = []
+  } = options;
+  const entries: { driveSeconds: number; waypoint: Waypoint }[] = [];
+  
+  // Cumulative driving time and distance at the end of each leg
+  const legEnds: { duration: number; distance: number }[] = [];
+  let legDurationSum = 0;
+  let legDistanceSum = 0;
+  for (const leg of route.legs) {
+    legDurationSum += leg.duration;
+    legDistanceSum += leg.distance;
+    legEnds.push({ duration: legDurationSum, distance: legDistanceSum });
+  }
+  
+  const getLegIndexAt = (seconds: number): number => {
+    const index = legEnds.findIndex(end => seconds < end.duration);
+    return index === -1 ? route.legs.length - 1 : index;
+  };
+  
+  const pauses = buildPauses(legEnds.map(end => end.duration), vias, breakRule, route.duration, route.ferries);
+  const timeAt = (driveSeconds: number) =>
+    new Date(departureTime.getTime() + toClockSeconds(driveSeconds, pauses) * 1000);
   
   // Add starting point
-  waypoints.push({
-    lat: route.geometry[0][0],
-    lon: route.geometry[0][1],
-    name: fromName,
-    arrivalTime: new Date(departureTime),
-    distanceFromStart: 0
+  entries.push({
+    driveSeconds: 0,
+    waypoint: {
+      lat: route.geometry[0][0],
+      lon: route.geometry[0][1],
+      name: fromName,
+      arrivalTime: new Date(departureTime),
+      distanceFromStart: 0,
+      driveSeconds: 0,
+      kind: 'start',
+      legIndex: 0
+    }
   });
   
-  // Calculate hourly waypoints
-  for (let hour = 1; hour <= hourCount; hour++) {
-    const targetTime = hour * 3600; // seconds from start
+  // Calculate sample waypoints, with at least one on every ferry crossing
+  const sampleTimes = [...getSampleDriveTimes(route, sampling), ...extraSampleTimes]
+    .filter(time => time > 0 && time < route.duration);
+  route.ferries.forEach((crossing, index) => {
+    if (!sampleTimes.some(time => getFerryIndexAt(route.ferries, time) === index)) {
+      sampleTimes.push((crossing.startSeconds + crossing.endSeconds) / 2);
+    }
+  });
+  for (const targetTime of sampleTimes) {
+    const { point, distanceKm, roadName } = getRoutePositionAt(route, targetTime);
+    entries.push({
+      driveSeconds: targetTime,
+      waypoint: {
+        lat: point[0],
+        lon: point[1],
+        name: '', // Will be filled by reverse geocoding
+        roadName,
+        arrivalTime: timeAt(targetTime),
+        distanceFromStart: distanceKm,
+        driveSeconds: targetTime,
+        kind: 'sample',
+        legIndex: getLegIndexAt(targetTime),
+        ferryIndex: getFerryIndexAt(route.ferries, targetTime)
+      }
+    });
+  }
+  
+  // Add via-points (the snapped OSRM location of each stop) and breaks
+  pauses.forEach(pause => {
+    const arrivalTime = timeAt(pause.driveSeconds);
+    const departure = new Date(arrivalTime.getTime() + pause.durationSeconds * 1000);
     
-    if (targetTime >= route.duration) {
-      // Final destination
-      const lastPoint = route.geometry[route.geometry.length - 1];
-      waypoints.push({
-        lat: lastPoint[0],
-        lon: lastPoint[1],
-        name: toName,
-        arrivalTime: new Date(departureTime.getTime() + route.duration * 1000),
-        distanceFromStart: route.distance
+    if (pause.kind === 'via') {
+      const stop = route.stops[pause.viaIndex + 1];
+      const legEnd = legEnds[pause.viaIndex];
+      if (!stop || !legEnd) return;
+      entries.push({
+        driveSeconds: pause.driveSeconds,
+        waypoint: {
+          lat: stop[0],
+          lon: stop[1],
+          name: vias[pause.viaIndex].name,
+          arrivalTime,
+          departureTime: departure,
+          distanceFromStart: legEnd.distance,
+          driveSeconds: pause.driveSeconds,
+          kind: 'via',
+          legIndex: pause.viaIndex
+        }
       });
-      break;
+      return;
     }
     
-    // Find position along route at this time
-    const progress = targetTime / route.duration;
-    const pointIndex = Math.floor(progress * (route.geometry.length - 1));
-    const point = route.geometry[Math.min(pointIndex, route.geometry.length - 1)];
-    
-    // Find nearest step name (road name from OSRM)
-    let accumulatedDuration = 0;
-    let roadName = '';
-    let roadRef = '';
-    for (const step of route.steps) {
-      accumulatedDuration += step.duration;
-      if (accumulatedDuration >= targetTime) {
-        roadName = step.name || '';
-        roadRef = step.ref || '';
-        break;
+    const { point, distanceKm, roadName } = getRoutePositionAt(route, pause.driveSeconds);
+    entries.push({
+      driveSeconds: pause.driveSeconds,
+      waypoint: {
+        lat: point[0],
+        lon: point[1],
+        name: '', // Will be filled by reverse geocoding
+        roadName,
+        arrivalTime,
+        departureTime: departure,
+        distanceFromStart: distanceKm,
+        driveSeconds: pause.driveSeconds,
+        kind: 'break',
+        legIndex: getLegIndexAt(pause.driveSeconds)
       }
-    }
-    
-    // Prioritize E-road reference over street name
-    const displayRoad = roadRef || roadName;
-    
-    waypoints.push({
-      lat: point[0],
-      lon: point[1],
-      name: '', // Will be filled by reverse geocoding
-      roadName: displayRoad,
-      arrivalTime: new Date(departureTime.getTime() + targetTime * 1000),
-      distanceFromStart: progress * route.distance
     });
-  }
-  
-  // Reverse geocode intermediate waypoints (not first and last)
-  const geocodePromises = waypoints.slice(1, -1).map(async (wp, index) => {
-    const { municipality, road } = await reverseGeocode(wp.lat, wp.lon);
-    // Use road from OSRM if available, otherwise from reverse geocode
-    const finalRoad = wp.roadName || road || 'En route';
-    waypoints[index + 1].name = municipality ? `${finalRoad} - ${municipality}` : finalRoad;
   });
   
-  await Promise.all(geocodePromises);
+  entries.sort((a, b) => a.driveSeconds - b.driveSeconds);
+  const waypoints = entries.map(entry => entry.waypoint);
   
-  return waypoints;
-};
-
-// Check if coordinates are in Sweden (approximate bounding box)
-const isInSweden = (lat: number, lon: number): boolean => {
-  return lat >= 55.0 && lat <= 69.5 && lon >= 10.5 && lon <= 24.5;
-};
-
-// Get weather data from SMHI for Sweden
-const getWeatherFromSMHI = async (
-  lat: number,
-  lon: number,
-  targetTime: Date
-): Promise<WeatherData> => {
-  // SMHI requires coordinates with max 6 decimals
-  const roundedLat = Math.round(lat * 1000000) / 1000000;
-  const roundedLon = Math.round(lon * 1000000) / 1000000;
+  // Final destination
+  const lastPoint = route.geometry[route.geometry.length - 1];
+  waypoints.push({
+    lat: lastPoint[0],
+    lon: lastPoint[1],
+    name: toName,
+    arrivalTime: timeAt(route.duration),
+    distanceFromStart: route.distance,
+    driveSeconds: route.duration,
+    kind: 'end',
+    legIndex: route.legs.length - 1
+  });
   
-  const url = `https://opendata-download-metfcst.smhi.se/api/category/pmp3g/version/2/geotype/point/lon/${roundedLon}/lat/${roundedLat}/data.json`;
+  waypoints.forEach(wp => {
+    wp.country = getCountryAt(wp.lat, wp.lon);
+  });
   
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': 'WeatherWay/1.0'
+  // Waypoints at sea are named after the crossing
+  waypoints.forEach(wp => {
+    if (wp.ferryIndex !== undefined) {
+      wp.name = `Ferry: ${route.ferries[wp.ferryIndex].name}`;
     }
   });
   
-  if (!response.ok) {
-    throw new Error('SMHI weather request failed');
-  }
+  // Reverse geocode the sample waypoints and breaks (start, stops and destination already have names)
+  const geocodePromises = waypoints
+    .filter(wp => (wp.kind === 'sample' && wp.ferryIndex === undefined) || wp.kind === 'break')
+    .map(async (wp) => {
+      const { municipality, road } = await reverseGeocode(wp.lat, wp.lon);
+      // Use road from OSRM if available, otherwise from reverse geocode
+      const finalRoad = wp.roadName || road || 'En route';
+      wp.name = municipality ? `${finalRoad} - ${municipality}` : finalRoad;
+    });
   
-  const data = await response.json();
+  await Promise.all(geocodePromises);
   
-  // Find the forecast closest to the target time
-  const targetTimestamp = targetTime.getTime();
-  let closestIndex = 0;
-  let closestDiff = Infinity;
-  
-  for (let i = 0; i < data.timeSeries.length; i++) {
-    const forecastTime = new Date(data.timeSeries[i].validTime).getTime();
-    const diff = Math.abs(forecastTime - targetTimestamp);
-    if (diff < closestDiff) {
-      closestDiff = diff;
-      closestIndex = i;
-    }
+  return waypoints;
+};
+
+// Load a provider's series for a location and normalize it
+const loadProviderSeries = (provider: WeatherProvider) => async (lat: number, lon: number): Promise<ForecastSeries> => {
+  return provider.normalize(await provider.fetchForecast(lat, lon), lat, lon);
+};
+
+const lerp = (a: number, b: number, fraction: number): number => a + (b - a) * fraction;
+
+const stepValues = ({ time, ...values }: ForecastStep): Omit<ForecastStep, 'time'> => values;
+
+// Values at the target time. Continuous fields (temperature, wind, visibility,
+// precipitation intensity) are interpolated linearly between the surrounding steps.
+// Categorical fields take the nearest step, except that precipitation type comes
+// from whichever step has precipitation when the interpolated intensity is above
+// zero, and is 0 (none) when it is not. Outside the series the edge step is used.
+const interpolateSteps = (steps: ForecastStep[], targetTimestamp: number): Omit<ForecastStep, 'time'> => {
+  if (targetTimestamp <= steps[0].time) return stepValues(steps[0]);
+  
+  const nextIndex = steps.findIndex(step => step.time >= targetTimestamp);
+  if (nextIndex === -1) return stepValues(steps[steps.length - 1]);
+  
+  const before = steps[nextIndex - 1];
+  const after = steps[nextIndex];
+  const span = after.time - before.time;
+  const fraction = span > 0 ? (targetTimestamp - before.time) / span : 1;
+  const nearest = fraction < 0.5 ? before : after;
+  const other = nearest === before ? after : before;
+  
+  const precipitationIntensity = lerp(before.precipitationIntensity, after.precipitationIntensity, fraction);
+  let precipitationType = 0;
+  if (precipitationIntensity > 0) {
+    precipitationType = nearest.precipitationType || other.precipitationType;
   }
   
-  const forecast = data.timeSeries[closestIndex];
-  
-  // Helper to get parameter value
-  const getParam = (name: string): number => {
-    const param = forecast.parameters.find((p: any) => p.name === name);
-    return param ? param.values[0] : 0;
-  };
-  
-  const temperature = getParam('t'); // Temperature in Celsius
-  const windSpeed = getParam('ws'); // Wind speed in m/s
-  const visibility = getParam('vis'); // Visibility in km
-  const precipitationCategory = getParam('pcat'); // Precipitation category
-  const precipitationIntensity = getParam('pmean'); // Mean precipitation intensity mm/h
-  const weatherSymbolCode = getParam('Wsymb2'); // Weather symbol (1-27)
-  
-  // Calculate approximate sunrise/sunset for the date
-  const { sunrise, sunset } = calculateSunTimes(lat, lon, targetTime);
-  
-  // SMHI Wsymb2 codes 1-27 are directly compatible with our weatherUtils
   return {
-    temperature,
-    precipitationType: precipitationCategory, // SMHI pcat: 0=None, 1=Snow, 2=Sleet, 3=Rain, etc.
+    temperature: lerp(before.temperature, after.temperature, fraction),
+    windSpeed: lerp(before.windSpeed, after.windSpeed, fraction),
+    visibility: lerp(before.visibility, after.visibility, fraction),
     precipitationIntensity,
-    windSpeed,
-    visibility: visibility || 50,
-    weatherSymbol: weatherSymbolCode, // Pass through directly, weatherUtils handles 1-27
-    sunrise,
-    sunset
+    precipitationType,
+    weatherSymbol: nearest.weatherSymbol
   };
 };
 
-// Simple sun calculation (approximation)
-const calculateSunTimes = (lat: number, lon: number, date: Date): { sunrise: Date | null; sunset: Date | null } => {
-  const dayOfYear = Math.floor((date.getTime() - new Date(date.getFullYear(), 0, 0).getTime()) / 86400000);
-  const declination = 23.45 * Math.sin((360 / 365) * (dayOfYear - 81) * Math.PI / 180);
-  const latRad = lat * Math.PI / 180;
-  const decRad = declination * Math.PI / 180;
-  
-  const hourAngle = Math.acos(-Math.tan(latRad) * Math.tan(decRad)) * 180 / Math.PI;
-  const solarNoon = 12 - lon / 15;
+// Sample the series at the target time
+export const sampleSeries = (series: ForecastSeries, targetTime: Date): WeatherData => {
+  const values = interpolateSteps(series.steps, targetTime.getTime());
   
-  const sunriseHour = solarNoon - hourAngle / 15;
-  const sunsetHour = solarNoon + hourAngle / 15;
+  // Use provider sunrise/sunset for the target's local date if available, otherwise calculate them
+  const localDate = new Date(targetTime.getTime() + (series.utcOffset ?? 0) * 1000).toISOString().split('T')[0];
+  const day = series.daily?.find(d => d.date === localDate);
+  const { sunrise, sunset } = day ?? getSunTimes(targetTime, series.lat, series.lon);
   
-  const sunrise = new Date(date);
-  sunrise.setHours(Math.floor(sunriseHour), Math.round((sunriseHour % 1) * 60), 0, 0);
-  
-  const sunset = new Date(date);
-  sunset.setHours(Math.floor(sunsetHour), Math.round((sunsetHour % 1) * 60), 0, 0);
-  
-  return { sunrise, sunset };
+  return { ...values, sunrise, sunset, forecastElevation: series.elevation };
 };
 
-// Get weather data - uses SMHI for Sweden, Open-Meteo for elsewhere
+// Get weather data - the forecast series for each location is fetched once and
+// cached, so repeated calls for other times are answered locally
 export const getWeather = async (
   lat: number,
   lon: number,
-  targetTime: Date
+  targetTime: Date,
+  country: CountryCode | null = getCountryAt(lat, lon)
 ): Promise<WeatherData> => {
-  // Use SMHI for Swedish locations
-  if (isInSweden(lat, lon)) {
+  // Try the selected providers in priority order until one answers
+  let lastError: unknown = null;
+  for (const provider of selectWeatherProviders(lat, lon, targetTime, country)) {
     try {
-      return await getWeatherFromSMHI(lat, lon, targetTime);
+      const series = await getCachedSeries(lat, lon, loadProviderSeries(provider), provider.id);
+      if (series.steps.length > 0) {
+        return sampleSeries(series, targetTime);
+      }
     } catch (error) {
-      console.warn('SMHI request failed, falling back to Open-Meteo:', error);
-      // Fall through to Open-Meteo
-    }
-  }
-  
-  // Use Open-Meteo for non-Swedish locations or as fallback
-  const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&hourly=temperature_2m,precipitation,weather_code,wind_speed_10m,visibility&daily=sunrise,sunset&timezone=auto`;
-  
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    throw new Error('Weather data request failed');
-  }
-  
-  const data = await response.json();
-  
-  // Find the forecast closest to the target time
-  const targetTimestamp = targetTime.getTime();
-  let closestIndex = 0;
-  let closestDiff = Infinity;
-  
-  for (let i = 0; i < data.hourly.time.length; i++) {
-    const forecastTime = new Date(data.hourly.time[i]).getTime();
-    const diff = Math.abs(forecastTime - targetTimestamp);
-    if (diff < closestDiff) {
-      closestDiff = diff;
-      closestIndex = i;
-    }
-  }
-  
-  // Find the sunrise/sunset for the target date
-  const targetDateStr = targetTime.toISOString().split('T')[0];
-  let sunrise: Date | null = null;
-  let sunset: Date | null = null;
-  
-  if (data.daily && data.daily.time) {
-    const dayIndex = data.daily.time.findIndex((d: string) => d === targetDateStr);
-    if (dayIndex !== -1) {
-      sunrise = data.daily.sunrise[dayIndex] ? new Date(data.daily.sunrise[dayIndex]) : null;
-      sunset = data.daily.sunset[dayIndex] ? new Date(data.daily.sunset[dayIndex]) : null;
+      console.warn(`${provider.name} request failed, trying the next provider:`, error);
+      lastError = error;
     }
   }
   
-  // Map Open-Meteo weather codes to our weather symbol format
-  const weatherCode = data.hourly.weather_code[closestIndex] || 0;
-  const weatherSymbol = mapWeatherCodeToSymbol(weatherCode);
-  
-  // Map Open-Meteo weather codes to SMHI-compatible precipitation types
-  // SMHI pcat: 0=None, 1=Snow, 2=Sleet, 3=Rain, 4=Drizzle, 5=Freezing rain, 6=Freezing drizzle
-  const precipitationType = mapWeatherCodeToPrecipType(weatherCode);
-  
-  return {
-    temperature: data.hourly.temperature_2m[closestIndex] || 0,
-    precipitationType,
-    precipitationIntensity: data.hourly.precipitation[closestIndex] || 0,
-    windSpeed: data.hourly.wind_speed_10m[closestIndex] || 0,
-    visibility: (data.hourly.visibility[closestIndex] || 50000) / 1000, // Convert to km
-    weatherSymbol,
-    sunrise,
-    sunset
-  };
-};
-
-// Map Open-Meteo WMO weather codes to SMHI-compatible Wsymb2 format (1-27)
-const mapWeatherCodeToSymbol = (code: number): number => {
-  // Clear sky
-  if (code === 0) return 1;
-  // Partly cloudy
-  if (code === 1) return 2;
-  if (code === 2) return 3;
-  // Overcast
-  if (code === 3) return 6;
-  // Fog
-  if (code >= 45 && code <= 48) return 7;
-  // Drizzle (51-55) - light rain
-  if (code >= 51 && code <= 53) return 18;
-  if (code >= 54 && code <= 55) return 19;
-  // Freezing drizzle (56-57)
-  if (code >= 56 && code <= 57) return 22;
-  // Rain (61-65)
-  if (code === 61) return 18;
-  if (code === 63) return 19;
-  if (code === 65) return 20;
-  // Freezing rain (66-67)
-  if (code >= 66 && code <= 67) return 22;
-  // Snow (71-77)
-  if (code === 71) return 25;
-  if (code === 73) return 26;
-  if (code === 75) return 27;
-  if (code === 77) return 25; // Snow grains
-  // Rain showers (80-82)
-  if (code === 80) return 8;
-  if (code === 81) return 9;
-  if (code === 82) return 10;
-  // Snow showers (85-86)
-  if (code === 85) return 15;
-  if (code === 86) return 17;
-  // Thunderstorm (95-99)
-  if (code >= 95 && code <= 99) return 21;
-  return 1;
-};
-
-// Map Open-Meteo WMO weather codes to SMHI-compatible precipitation category
-// SMHI pcat: 0=None, 1=Snow, 2=Sleet, 3=Rain, 4=Drizzle, 5=Freezing rain, 6=Freezing drizzle
-const mapWeatherCodeToPrecipType = (code: number): number => {
-  // No precipitation
-  if (code <= 3) return 0;
-  // Fog - no precipitation
-  if (code >= 45 && code <= 48) return 0;
-  // Drizzle (51-55)
-  if (code >= 51 && code <= 55) return 4;
-  // Freezing drizzle (56-57)
-  if (code >= 56 && code <= 57) return 6;
-  // Rain (61-65)
-  if (code >= 61 && code <= 65) return 3;
-  // Freezing rain (66-67)
-  if (code >= 66 && code <= 67) return 5;
-  // Snow (71-77)
-  if (code >= 71 && code <= 77) return 1;
-  // Rain showers (80-82)
-  if (code >= 80 && code <= 82) return 3;
-  // Snow showers (85-86)
-  if (code >= 85 && code <= 86) return 1;
-  // Thunderstorm (95-99) - assume rain
-  if (code >= 95 && code <= 99) return 3;
-  return 0;
+  throw lastError instanceof Error ? lastError : new Error('No forecast available for this location');
 };
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { getCountryAt, type CountryCode } from './countries';
+
+// [place, lat, lon, expected country]
+const SPOT_CHECKS: [string, number, number, CountryCode | null][] = [
+  ['Stockholm', 59.33, 18.07, 'SE'],
+  ['Oslo', 59.91, 10.75, 'NO'],
+  ['Helsinki', 60.17, 24.94, 'FI'],
+  ['Copenhagen', 55.68, 12.57, 'DK'],
+  ['Berlin', 52.52, 13.4, 'DE'],
+  ['Narvik', 68.44, 17.43, 'NO'],
+  ['Riksgränsen', 68.43, 18.13, 'SE'],
+  ['Abisko', 68.35, 18.83, 'SE'],
+  ['Eckerö', 60.22, 19.55, 'FI'],
+  ['Mariehamn', 60.1, 19.94, 'FI'],
+  ['Saarbrücken', 49.23, 6.99, 'DE'],
+  ['Garmisch-Partenkirchen', 47.49, 11.1, 'DE'],
+  ['Puttgarden', 54.5, 11.22, 'DE'],
+  ['Rødby', 54.65, 11.35, 'DK'],
+  ['Visby', 57.64, 18.29, 'SE'],
+  ['Kapellskär', 59.72, 19.06, 'SE'],
+  ['Karesuando', 68.44, 22.48, 'SE'],
+  ['Kilpisjärvi', 69.05, 20.8, 'FI'],
+  ['Skibotn', 69.39, 20.27, 'NO'],
+  ['Emden', 53.37, 7.21, 'DE'],
+  ['Delfzijl', 53.33, 6.92, null],
+  ['Frankfurt (Oder)', 52.35, 14.55, 'DE'],
+  ['Görlitz', 51.15, 14.99, 'DE'],
+  ['Szczecin', 53.43, 14.55, null],
+  ['Åland Sea', 60.0, 19.0, null],
+  ['North Sea', 56.5, 4.0, null],
+];
+
+describe('getCountryAt', () => {
+  it.each(SPOT_CHECKS)('%s (%f, %f) is in %s', (_, lat, lon, expected) => {
+    expect(getCountryAt(lat, lon)).toBe(expected);
+  });
+});
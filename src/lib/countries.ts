@@ -0,0 +1,171 @@
+// Offline country lookup from simplified, bundled boundaries.
+// Polygons are hand-simplified outlines ([lat, lon], roughly 5-20 km accuracy along
+// land borders and coarser along coasts); points at sea or outside the covered
+// countries resolve to null.
+
+import { isInPolygon, type Polygon } from './routeGeometry';
+
+export type CountryCode = 'SE' | 'NO' | 'FI' | 'DK' | 'DE';
+
+export const COUNTRY_NAMES: Record<CountryCode, string> = {
+  SE: 'Sweden',
+  NO: 'Norway',
+  FI: 'Finland',
+  DK: 'Denmark',
+  DE: 'Germany',
+};
+
+// Shared land borders, so neighbouring outlines meet without gaps or overlaps
+const NORWAY_SWEDEN: Polygon = [
+  [59.08, 11.25], [59.1, 11.45], [59.3, 11.7], [59.8, 11.9], [60.4, 12.6],
+  [61.2, 12.5], [62.2, 12.2], [63.0, 12.0], [63.3, 12.0], [63.6, 12.3],
+  [64.1, 13.9], [64.7, 14.1], [65.4, 14.5], [66.1, 15.2], [66.6, 15.6],
+  [67.3, 16.4], [67.9, 17.3], [68.2, 17.9], [68.44, 18.08], [68.6, 18.7],
+  [68.6, 19.9], [69.06, 20.55],
+];
+
+// Könkämäeno and Muonionjoki rivers, then the Torne
+const SWEDEN_FINLAND: Polygon = [
+  [69.06, 20.55], [68.9, 21.05], [68.7, 21.6], [68.55, 22.05], [68.45, 22.5],
+  [68.3, 22.85], [68.2, 23.1], [67.95, 23.65], [67.45, 23.75],
+  [67.15, 23.55], [66.85, 23.9], [66.4, 23.65], [66.1, 23.95], [65.82, 24.15],
+];
+
+// Around the Finnish arm by Halti, then eastwards to the Russian border
+const NORWAY_FINLAND: Polygon = [
+  [69.06, 20.55], [69.2, 21.0], [69.31, 21.27], [69.1, 21.55], [68.9, 21.9],
+  [68.7, 22.4], [68.65, 23.0], [68.8, 23.9],
+  [68.6, 24.9], [69.0, 25.8], [69.6, 25.9], [69.9, 27.0], [70.08, 27.9],
+  [69.8, 28.4], [69.05, 28.93],
+];
+
+const DENMARK_GERMANY: Polygon = [[54.8, 8.6], [54.8, 9.45]];
+
+const reversed = (border: Polygon): Polygon => [...border].reverse();
+
+const BOUNDARIES: Record<CountryCode, Polygon[]> = {
+  SE: [
+    [
+      ...NORWAY_SWEDEN,
+      ...SWEDEN_FINLAND.slice(1),
+      // Gulf of Bothnia and Baltic coast, southwards
+      [65.6, 22.4], [65.2, 21.6], [64.75, 21.3], [64.2, 20.95], [63.75, 20.4],
+      [63.5, 19.5], [63.2, 18.8], [62.65, 18.1], [62.3, 17.5], [61.7, 17.2],
+      [61.2, 17.2], [60.7, 17.3], [60.5, 18.4], [60.2, 18.85], [59.95, 18.95],
+      [59.75, 19.15], [59.4, 19.0], [59.0, 18.3], [58.7, 17.3], [58.2, 16.9], [57.7, 16.7],
+      [57.2, 16.55], [56.65, 16.4], [56.2, 15.9], [56.1, 15.3], [56.0, 14.7],
+      [55.55, 14.4], [55.4, 13.9], [55.35, 13.1], [55.6, 12.95],
+      // Öresund and west coast, northwards
+      [56.05, 12.65], [56.3, 12.5], [56.65, 12.8], [57.1, 12.2], [57.6, 11.85],
+      [58.0, 11.7], [58.5, 11.2], [58.9, 11.1],
+    ],
+    // Gotland and Öland
+    [
+      [58.0, 19.35], [57.6, 18.9], [57.3, 18.9], [56.9, 18.35], [56.88, 18.05],
+      [57.35, 18.0], [57.65, 18.15], [57.85, 18.55], [58.0, 19.0],
+    ],
+    [[57.37, 17.1], [57.2, 17.15], [56.2, 16.6], [56.19, 16.42]],
+  ],
+  NO: [
+    [
+      ...NORWAY_SWEDEN,
+      ...NORWAY_FINLAND.slice(1),
+      // Russian border along the Pasvik river
+      [69.3, 29.3], [69.6, 30.1], [69.78, 30.85],
+      // Barents Sea and Atlantic coast, westwards and southwards
+      [70.4, 31.2], [70.9, 29.5], [71.15, 27.7], [71.2, 25.7], [71.0, 24.0],
+      [70.7, 22.5], [70.4, 21.0], [70.2, 19.5], [69.9, 18.0], [69.4, 16.0],
+      [68.7, 14.8], [68.2, 13.0], [67.8, 12.8], [67.3, 14.0], [66.5, 12.8],
+      [65.5, 11.9], [64.9, 11.0], [64.3, 10.2], [63.7, 9.0], [63.2, 7.8],
+      [62.7, 6.5], [62.3, 5.3], [61.6, 4.8], [60.8, 4.7], [60.2, 5.0],
+      [59.3, 5.1], [58.9, 5.5], [58.4, 5.9], [58.0, 6.6], [57.95, 7.1],
+      // Skagerrak coast and Oslofjord, eastwards
+      [58.05, 8.0], [58.4, 8.9], [58.9, 9.9], [59.0, 10.6], [59.05, 11.0],
+    ],
+  ],
+  FI: [
+    [
+      ...reversed(SWEDEN_FINLAND),
+      ...NORWAY_FINLAND.slice(1),
+      // Russian border, southwards
+      [68.9, 28.45], [68.55, 28.45], [68.1, 28.7], [67.75, 30.0], [66.9, 29.4],
+      [66.1, 29.9], [65.7, 30.1], [65.0, 29.7], [64.6, 30.1], [64.2, 30.5],
+      [63.2, 31.2], [62.9, 31.55], [62.4, 31.3], [62.0, 30.7], [61.5, 29.8],
+      [61.15, 28.85], [60.6, 27.8],
+      // Gulf of Finland and Gulf of Bothnia coast, westwards and northwards
+      [60.45, 26.9], [60.25, 25.5], [60.1, 24.9], [59.95, 23.9], [59.8, 22.9],
+      [60.1, 22.2], [60.3, 21.4], [60.8, 21.3], [61.5, 21.4], [62.3, 21.0],
+      [63.0, 21.2], [63.5, 22.2], [63.9, 23.0], [64.3, 23.7], [64.85, 25.2],
+      [65.3, 25.2], [65.7, 24.6],
+    ],
+    // Åland
+    [[60.45, 19.3], [60.45, 20.4], [59.95, 20.4], [59.95, 19.3]],
+  ],
+  DK: [
+    // Jutland
+    [
+      ...DENMARK_GERMANY,
+      [54.85, 9.9], [55.3, 9.65], [55.6, 9.85], [56.15, 10.3], [56.5, 10.95],
+      [56.75, 10.35], [57.1, 10.55], [57.45, 10.6], [57.75, 10.65], [57.6, 10.0],
+      [57.15, 8.65], [56.75, 8.15], [56.0, 8.1], [55.5, 8.05], [55.05, 8.4],
+    ],
+    // Funen, Zealand, Lolland-Falster and Bornholm
+    [[55.6, 9.8], [55.6, 10.6], [55.1, 10.85], [55.0, 10.2], [55.25, 9.8]],
+    [
+      [56.1, 12.3], [56.05, 12.65], [55.7, 12.65], [55.45, 12.25], [55.25, 12.45],
+      [54.98, 12.1], [55.0, 11.7], [55.35, 11.1], [55.75, 11.0], [55.97, 11.35],
+      [56.0, 11.85],
+    ],
+    [[54.95, 11.0], [54.95, 12.1], [54.55, 12.0], [54.6, 11.2]],
+    [[55.3, 14.7], [55.3, 15.15], [54.98, 15.15], [54.98, 14.7]],
+  ],
+  DE: [
+    [
+      ...DENMARK_GERMANY,
+      // Baltic coast and Polish border
+      [54.45, 10.2], [54.4, 10.95], [54.55, 11.0], [54.55, 11.3], [54.35, 11.3],
+      [54.15, 11.7], [54.4, 12.5], [54.7, 13.4],
+      [54.2, 14.2], [53.9, 14.2], [53.4, 14.4], [52.85, 14.15], [52.6, 14.63],
+      [52.35, 14.58], [52.0, 14.72], [51.55, 14.75], [51.15, 15.0], [50.87, 14.82],
+      // Czech, Austrian and Swiss borders
+      [50.9, 14.3], [50.3, 12.1], [49.3, 12.9], [48.6, 13.8], [47.5, 13.0],
+      [47.6, 12.2], [47.4, 11.3], [47.4, 10.95], [47.55, 10.7], [47.5, 10.45],
+      [47.27, 10.2], [47.55, 9.75], [47.6, 9.5], [47.6, 7.6],
+      // French, Luxembourg, Belgian and Dutch borders
+      [49.0, 8.2], [49.05, 7.95], [49.12, 7.4], [49.1, 7.05], [49.2, 6.85],
+      [49.45, 6.4], [49.5, 6.35], [50.1, 6.1], [50.75, 6.0],
+      [51.8, 5.95], [52.3, 7.0], [53.25, 7.2], [53.45, 7.0], [53.7, 7.3],
+      // North Sea coast
+      [53.7, 8.0], [53.9, 8.9], [54.5, 8.6],
+    ],
+  ],
+};
+
+// Rough bounding box per country, so most lookups skip the polygon test
+const BOUNDING_BOXES = Object.fromEntries(
+  Object.entries(BOUNDARIES).map(([code, polygons]) => {
+    const points = polygons.flat();
+    const lats = points.map(([lat]) => lat);
+    const lons = points.map(([, lon]) => lon);
+    return [code, {
+      minLat: Math.min(...lats),
+      maxLat: Math.max(...lats),
+      minLon: Math.min(...lons),
+      maxLon: Math.max(...lons),
+    }];
+  })
+) as Record<CountryCode, { minLat: number; maxLat: number; minLon: number; maxLon: number }>;
+
+/**
+ * Country containing the point, or null at sea and outside the bundled countries
+ */
+export const getCountryAt = (lat: number, lon: number): CountryCode | null => {
+  for (const code of Object.keys(BOUNDARIES) as CountryCode[]) {
+    const box = BOUNDING_BOXES[code];
+    if (lat < box.minLat || lat > box.maxLat || lon < box.minLon || lon > box.maxLon) continue;
+    if (BOUNDARIES[code].some(polygon => isInPolygon(lat, lon, polygon))) {
+      return code;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,93 @@
+import type { Waypoint } from './apiUtils';
+import { calculateTripAverageScore, getMinTripScore } from './drivingScore';
+import { attachRoadWeather } from './roadWeather';
+import { fetchWeatherForWaypoints } from './tripPlanner';
+
+export interface DepartureCandidate {
+  departureTime: Date;
+  averageScore: number | null;
+  minScore: number | null;
+}
+
+// A candidate whose weather could be scored
+export type ScoredDeparture = DepartureCandidate & { averageScore: number };
+
+// Keep scans kind to the free weather APIs
+export const MAX_DEPARTURE_CANDIDATES = 48;
+export const MIN_SCAN_STEP_MINUTES = 15;
+
+/**
+ * List candidate departure times from windowStart to windowEnd (inclusive)
+ * at the given step, capped at MAX_DEPARTURE_CANDIDATES
+ */
+export const getDepartureCandidates = (
+  windowStart: Date,
+  windowEnd: Date,
+  stepMinutes: number
+): Date[] => {
+  const stepMs = Math.max(MIN_SCAN_STEP_MINUTES, stepMinutes) * 60 * 1000;
+  const candidates: Date[] = [];
+
+  for (
+    let time = windowStart.getTime();
+    time <= windowEnd.getTime() && candidates.length < MAX_DEPARTURE_CANDIDATES;
+    time += stepMs
+  ) {
+    candidates.push(new Date(time));
+  }
+
+  return candidates;
+};
+
+/**
+ * Evaluate the trip for every candidate departure.
+ * The planned waypoints are shifted in time, so stops and breaks keep their
+ * relative schedule and only the weather at each point changes. Weather is
+ * fetched as for the plan itself (sea state on crossings, height-corrected
+ * temperatures and road station readings for the first hours), so scanned
+ * scores compare like with like with the plan's.
+ */
+export const scanDepartures = async (
+  waypoints: Waypoint[],
+  plannedDeparture: Date,
+  candidates: Date[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<DepartureCandidate[]> => {
+  let completed = 0;
+
+  // Candidates are evaluated one after another to avoid a burst of requests
+  const results: DepartureCandidate[] = [];
+  for (const departureTime of candidates) {
+    const shiftMs = departureTime.getTime() - plannedDeparture.getTime();
+    const shifted = waypoints.map(waypoint => ({
+      ...waypoint,
+      arrivalTime: new Date(waypoint.arrivalTime.getTime() + shiftMs)
+    }));
+    const weatherData = await attachRoadWeather(shifted, await fetchWeatherForWaypoints(waypoints, shiftMs));
+
+    results.push({
+      departureTime,
+      averageScore: calculateTripAverageScore(weatherData),
+      minScore: getMinTripScore(weatherData)
+    });
+
+    completed++;
+    onProgress?.(completed, candidates.length);
+  }
+
+  return results;
+};
+
+/**
+ * Rank candidates best first: highest average score, then highest worst-point
+ * score, then earliest departure
+ */
+export const rankDepartures = (candidates: DepartureCandidate[]): ScoredDeparture[] => {
+  return candidates
+    .filter((candidate): candidate is ScoredDeparture => candidate.averageScore !== null)
+    .sort((a, b) =>
+      b.averageScore - a.averageScore ||
+      (b.minScore ?? 0) - (a.minScore ?? 0) ||
+      a.departureTime.getTime() - b.departureTime.getTime()
+    );
+};
@@ -1,10 +1,13 @@
 import { WeatherData } from './apiUtils';
+import type { RoadWeatherReading } from './roadWeather';
+import type { MarineConditions } from './ferries';
 
 export interface ScoreBreakdown {
   precipitation: number;
   visibility: number;
   wind: number;
   surfaceRisk: number;
+  waves: number;
   total: number;
 }
 
@@ -98,10 +101,9 @@ const calculateWindPenalty = (windSpeed: number): number => {
 };
 
 /**
- * Calculate surface risk penalty (0-15 points)
- * Based on temperature when precipitation is present
+ * Surface penalty from forecast temperature and precipitation (0-15 points)
  */
-const calculateSurfaceRiskPenalty = (
+const calculateForecastSurfacePenalty = (
   temperature: number,
   precipitationIntensity: number
 ): number => {
@@ -120,11 +122,79 @@ const calculateSurfaceRiskPenalty = (
   return 15; // Persistent ice, reduced tire grip
 };
 
+/**
+ * Surface penalty from an observed road state (0-15 points)
+ */
+const calculateRoadSurfacePenalty = (road: RoadWeatherReading): number => {
+  if (road.friction !== null && road.friction < 0.3) return 15; // Very poor grip
+  if (road.surfaceState === 'ice' || road.surfaceState === 'frost') return 15;
+  if (road.surfaceState === 'snow' || road.surfaceState === 'slush') return 12;
+  if (road.friction !== null && road.friction < 0.5) return 10;
+
+  const freezing = road.surfaceTemperature !== null && road.surfaceTemperature <= 0;
+  if (freezing && (road.surfaceState === 'wet' || road.surfaceState === 'moist')) return 12; // Freezing on the road
+  if (freezing) return 5;
+  if (road.surfaceTemperature !== null && road.surfaceTemperature <= 2 && road.surfaceState === 'wet') return 5;
+  return 0;
+};
+
+/**
+ * Calculate surface risk penalty (0-15 points)
+ * Based on temperature when precipitation is present, and on the nearest road
+ * weather station's observation when there is one
+ */
+const calculateSurfaceRiskPenalty = (
+  temperature: number,
+  precipitationIntensity: number,
+  road?: RoadWeatherReading
+): number => {
+  const forecastPenalty = calculateForecastSurfacePenalty(temperature, precipitationIntensity);
+  return road ? Math.max(forecastPenalty, calculateRoadSurfacePenalty(road)) : forecastPenalty;
+};
+
+/**
+ * Wind penalty on a ferry crossing (0-50 points)
+ * Crossings are uncomfortable from a fresh breeze and at risk from a gale
+ */
+const calculateCrossingWindPenalty = (windSpeed: number): number => {
+  if (windSpeed < 8) return 0;
+  if (windSpeed < 11) return 10;
+  if (windSpeed < 15) return 20;
+  if (windSpeed < 20) return 35;
+  return 50;
+};
+
+/**
+ * Wave penalty on a ferry crossing (0-50 points)
+ * Based on significant wave height in m
+ */
+const calculateWavePenalty = (marine: MarineConditions): number => {
+  if (marine.waveHeight === null || marine.waveHeight < 1) return 0;
+  if (marine.waveHeight < 2) return 10;
+  if (marine.waveHeight < 3) return 25;
+  if (marine.waveHeight < 4) return 40;
+  return 50;
+};
+
+/**
+ * Crossing penalties for a waypoint on a ferry: wind and waves replace the road factors
+ */
+const getCrossingBreakdown = (weather: WeatherData, marine: MarineConditions): ScoreBreakdown => {
+  const wind = calculateCrossingWindPenalty(weather.windSpeed);
+  const waves = calculateWavePenalty(marine);
+  return { precipitation: 0, visibility: 0, wind, surfaceRisk: 0, waves, total: wind + waves };
+};
+
 /**
  * Calculate the driving condition score (0-100)
- * Higher scores = better driving conditions
+ * Higher scores = better driving conditions. On a ferry crossing the score
+ * reflects the crossing instead: wind and waves.
  */
 export const calculateDrivingScore = (weather: WeatherData): number => {
+  if (weather.marine) {
+    return Math.max(0, 100 - getCrossingBreakdown(weather, weather.marine).total);
+  }
+
   const precipPenalty = calculatePrecipitationPenalty(
     weather.precipitationIntensity,
     weather.precipitationType,
@@ -134,7 +204,8 @@ export const calculateDrivingScore = (weather: WeatherData): number => {
   const windPenalty = calculateWindPenalty(weather.windSpeed);
   const surfacePenalty = calculateSurfaceRiskPenalty(
     weather.temperature,
-    weather.precipitationIntensity
+    weather.precipitationIntensity,
+    weather.road
   );
   
   const totalPenalty = precipPenalty + visibilityPenalty + windPenalty + surfacePenalty;
@@ -145,6 +216,10 @@ export const calculateDrivingScore = (weather: WeatherData): number => {
  * Get detailed breakdown of score penalties
  */
 export const getScoreBreakdown = (weather: WeatherData): ScoreBreakdown => {
+  if (weather.marine) {
+    return getCrossingBreakdown(weather, weather.marine);
+  }
+
   const precipitation = calculatePrecipitationPenalty(
     weather.precipitationIntensity,
     weather.precipitationType,
@@ -154,7 +229,8 @@ export const getScoreBreakdown = (weather: WeatherData): ScoreBreakdown => {
   const wind = calculateWindPenalty(weather.windSpeed);
   const surfaceRisk = calculateSurfaceRiskPenalty(
     weather.temperature,
-    weather.precipitationIntensity
+    weather.precipitationIntensity,
+    weather.road
   );
   
   return {
@@ -162,6 +238,7 @@ export const getScoreBreakdown = (weather: WeatherData): ScoreBreakdown => {
     visibility,
     wind,
     surfaceRisk,
+    waves: 0,
     total: precipitation + visibility + wind + surfaceRisk
   };
 };
@@ -277,6 +354,9 @@ export const formatBreakdownForDisplay = (breakdown: ScoreBreakdown): string[] =
   if (breakdown.surfaceRisk > 0) {
     lines.push(`Surface risk: -${breakdown.surfaceRisk}`);
   }
+  if (breakdown.waves > 0) {
+    lines.push(`Waves: -${breakdown.waves}`);
+  }
   
   if (lines.length === 0) {
     lines.push('No penalties - optimal conditions');
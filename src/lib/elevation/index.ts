@@ -0,0 +1,147 @@
+import type { RouteData, Waypoint, WeatherData } from '../apiUtils';
+import { roundCoordinate } from '../forecastCache';
+import { getDriveSecondsAtDistance, getPositionAtDriveSeconds } from '../routeGeometry';
+import { correctForAltitude } from './lapseRate';
+import { openMeteoElevationClient } from './openMeteo';
+import type { ElevationClient } from './types';
+
+export type { ElevationClient } from './types';
+export { LAPSE_RATE, correctForAltitude, type AltitudeCorrection } from './lapseRate';
+
+// One point of a route's elevation profile
+export interface ElevationPoint {
+  distanceKm: number;
+  elevation: number; // m above sea level
+}
+
+// Points sampled along the route for the profile chart
+const PROFILE_POINTS = 200;
+
+// Grid spacing assumed for forecasts that do not say which height they are for
+// (SMHI's point forecasts come from a 2.5 km grid)
+const MODEL_GRID_KM = 2.5;
+
+const KM_PER_DEGREE = 111.32;
+
+let client: ElevationClient | null = openMeteoElevationClient;
+
+// Terrain does not change, so heights are kept for the session
+const cache = new Map<string, Promise<number | null>>();
+
+/**
+ * Replace the elevation client (null turns elevation lookups off)
+ */
+export const setElevationClient = (replacement: ElevationClient | null) => {
+  client = replacement;
+  cache.clear();
+};
+
+export const getElevationClient = (): ElevationClient | null => client;
+
+const toKey = ([lat, lon]: [number, number]): string => `${roundCoordinate(lat)},${roundCoordinate(lon)}`;
+
+/**
+ * Terrain heights for a list of points (about 1 km resolution). Points not seen
+ * before are looked up in batches; null where the source has no data.
+ */
+export const getElevations = async (points: [number, number][]): Promise<(number | null)[]> => {
+  const active = client;
+  if (!active) return points.map(() => null);
+
+  const missing = new Map<string, [number, number]>();
+  points.forEach(point => {
+    const key = toKey(point);
+    if (!cache.has(key)) {
+      missing.set(key, [roundCoordinate(point[0]), roundCoordinate(point[1])]);
+    }
+  });
+
+  const entries = [...missing.entries()];
+  for (let start = 0; start < entries.length; start += active.maxBatchSize) {
+    const batch = entries.slice(start, start + active.maxBatchSize);
+    const heights = active.fetchElevations(batch.map(([, point]) => point));
+    batch.forEach(([key], index) => {
+      const height = heights.then(values => values[index]);
+      cache.set(key, height);
+      height.catch(() => cache.delete(key));
+    });
+  }
+
+  return Promise.all(points.map(point => cache.get(toKey(point)) ?? Promise.resolve(null)));
+};
+
+/**
+ * Heights at evenly spaced points along the route. Empty when no client is
+ * configured.
+ */
+export const getElevationProfile = async (route: RouteData): Promise<ElevationPoint[]> => {
+  if (!client || route.geometry.length === 0) return [];
+
+  const distances = Array.from({ length: PROFILE_POINTS + 1 }, (_, index) => route.distance * index / PROFILE_POINTS);
+  const points = distances.map(distanceKm =>
+    getPositionAtDriveSeconds(route.geometry, route.timeline, getDriveSecondsAtDistance(route.timeline, distanceKm)).point
+  );
+  const elevations = await getElevations(points);
+
+  return distances
+    .map((distanceKm, index) => ({ distanceKm, elevation: elevations[index] }))
+    .filter((point): point is ElevationPoint => point.elevation !== null);
+};
+
+// A 3×3 sample across the model grid cell around a point
+const getGridCellPoints = (lat: number, lon: number): [number, number][] => {
+  const latStep = MODEL_GRID_KM / 2 / KM_PER_DEGREE;
+  const lonStep = latStep / Math.cos(lat * Math.PI / 180);
+  return [-1, 0, 1].flatMap(row => [-1, 0, 1].map(column =>
+    [lat + row * latStep, lon + column * lonStep] as [number, number]
+  ));
+};
+
+const mean = (values: (number | null)[]): number | null => {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : null;
+};
+
+/**
+ * Correct every waypoint's forecast for the height of the road there. Forecasts
+ * that report their own height are corrected from it; for the others the mean
+ * height of the surrounding grid cell is used. If heights cannot be looked up the
+ * forecasts are returned unchanged.
+ */
+export const applyAltitudeCorrection = async (
+  waypoints: Waypoint[],
+  weatherData: Map<number, WeatherData | null>
+): Promise<Map<number, WeatherData | null>> => {
+  if (!client) return weatherData;
+
+  // Road points first, then the grid cells of forecasts without a height, in one lookup
+  const roadPoints = waypoints.map(waypoint => [waypoint.lat, waypoint.lon] as [number, number]);
+  const cellPoints = waypoints.map((waypoint, index) => {
+    const weather = weatherData.get(index);
+    return weather && weather.forecastElevation === undefined ? getGridCellPoints(waypoint.lat, waypoint.lon) : [];
+  });
+
+  let elevations: (number | null)[];
+  try {
+    elevations = await getElevations([...roadPoints, ...cellPoints.flat()]);
+  } catch (err) {
+    console.error('Failed to look up elevations:', err);
+    return weatherData;
+  }
+
+  const corrected = new Map(weatherData);
+  let cellOffset = roadPoints.length;
+  waypoints.forEach((_, index) => {
+    const cellElevations = elevations.slice(cellOffset, cellOffset + cellPoints[index].length);
+    cellOffset += cellPoints[index].length;
+
+    const weather = weatherData.get(index);
+    const elevation = elevations[index];
+    if (!weather || elevation === null) return;
+    const forecastElevation = weather.forecastElevation ?? mean(cellElevations);
+    if (forecastElevation === null) return;
+    corrected.set(index, correctForAltitude(weather, elevation, forecastElevation));
+  });
+
+  return corrected;
+};
@@ -0,0 +1,70 @@
+import type { WeatherData } from '../apiUtils';
+
+// How a waypoint's forecast was adjusted for the height of the road
+export interface AltitudeCorrection {
+  elevation: number; // Road height in m
+  forecastElevation: number; // Height in m the forecast values refer to
+  temperatureCorrection: number; // °C added to the forecast temperature
+}
+
+// Standard atmosphere: air cools by 6.5 °C per km of height
+export const LAPSE_RATE = 0.0065;
+
+// Precipitation falls as snow up to SNOW_MAX and as rain from RAIN_MIN, sleet in between (°C)
+const SNOW_MAX = 0.5;
+const RAIN_MIN = 2;
+
+// SMHI pcat codes for the three phases
+const SNOW = 1;
+const SLEET = 2;
+const RAIN = 3;
+const DRIZZLE = 4;
+
+// Wsymb2 codes by phase, light to heavy: showers, then continuous precipitation
+const PHASE_SYMBOLS: Record<number, number[][]> = {
+  [RAIN]: [[8, 9, 10], [18, 19, 20]],
+  [SLEET]: [[12, 13, 14], [22, 23, 24]],
+  [SNOW]: [[15, 16, 17], [25, 26, 27]],
+};
+
+const getPhase = (temperature: number): number => {
+  if (temperature <= SNOW_MAX) return SNOW;
+  if (temperature < RAIN_MIN) return SLEET;
+  return RAIN;
+};
+
+// The same kind and strength of precipitation in another phase; other symbols are kept
+const toPhaseSymbol = (symbol: number, phase: number): number => {
+  for (const groups of Object.values(PHASE_SYMBOLS)) {
+    for (let kind = 0; kind < groups.length; kind++) {
+      const strength = groups[kind].indexOf(symbol);
+      if (strength !== -1) return PHASE_SYMBOLS[phase][kind][strength];
+    }
+  }
+  return symbol;
+};
+
+/**
+ * Adjust a forecast made for forecastElevation to the road at elevation: the
+ * temperature follows the lapse rate, and rain, sleet or snow changes phase where
+ * the corrected temperature crosses a phase threshold that the forecast did not.
+ * Freezing rain and drizzle are left as forecast.
+ */
+export const correctForAltitude = (weather: WeatherData, elevation: number, forecastElevation: number): WeatherData => {
+  const temperatureCorrection = -LAPSE_RATE * (elevation - forecastElevation);
+  const temperature = weather.temperature + temperatureCorrection;
+  const corrected: WeatherData = {
+    ...weather,
+    temperature,
+    altitude: { elevation, forecastElevation, temperatureCorrection }
+  };
+
+  const canChangePhase = [SNOW, SLEET, RAIN, DRIZZLE].includes(weather.precipitationType) && weather.precipitationIntensity > 0;
+  const phase = getPhase(temperature);
+  if (canChangePhase && phase !== getPhase(weather.temperature)) {
+    corrected.precipitationType = phase;
+    corrected.weatherSymbol = toPhaseSymbol(weather.weatherSymbol, phase);
+  }
+
+  return corrected;
+};
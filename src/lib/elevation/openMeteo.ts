@@ -0,0 +1,32 @@
+import type { ElevationClient } from './types';
+
+// Subset of the Open-Meteo elevation response that we read
+interface OpenMeteoElevationResponse {
+  elevation: (number | null)[];
+}
+
+/**
+ * Open-Meteo's elevation API, backed by the 90 m Copernicus DEM
+ */
+export const openMeteoElevationClient: ElevationClient = {
+  id: 'open-meteo-elevation',
+  name: 'Copernicus DEM',
+  attribution: {
+    text: 'Copernicus DEM (via Open-Meteo)',
+    url: 'https://open-meteo.com/en/docs/elevation-api'
+  },
+  maxBatchSize: 100,
+
+  async fetchElevations(points) {
+    const latitudes = points.map(([lat]) => lat.toFixed(4)).join(',');
+    const longitudes = points.map(([, lon]) => lon.toFixed(4)).join(',');
+    const response = await fetch(`https://api.open-meteo.com/v1/elevation?latitude=${latitudes}&longitude=${longitudes}`);
+
+    if (!response.ok) {
+      throw new Error('Elevation request failed');
+    }
+
+    const data: OpenMeteoElevationResponse = await response.json();
+    return points.map((_, index) => data.elevation[index] ?? null);
+  }
+};
@@ -0,0 +1,14 @@
+/**
+ * A source of terrain heights, e.g. an elevation API or a DEM tile server
+ */
+export interface ElevationClient {
+  id: string;
+  name: string;
+  attribution: {
+    text: string;
+    url: string;
+  };
+  maxBatchSize: number; // Most points answered by one request
+  // Terrain height in m above sea level for each [lat, lon] point (null where the source has no data)
+  fetchElevations(points: [number, number][]): Promise<(number | null)[]>;
+}
@@ -0,0 +1,147 @@
+import { sampleSeries, type WeatherData } from './apiUtils';
+import { calculateDrivingScore } from './drivingScore';
+import { getCachedSeries, type ForecastSeries, type ForecastStep } from './forecastCache';
+import { mapWeatherCodeToPrecipType, mapWeatherCodeToSymbol } from './weatherProviders/openMeteo';
+
+// Independent global and regional models offered by the Open-Meteo multi-model endpoint
+const ENSEMBLE_MODELS = ['ecmwf_ifs025', 'icon_seamless', 'gfs_seamless', 'gem_seamless'];
+
+export interface ValueSpread {
+  min: number;
+  median: number;
+  max: number;
+}
+
+export type ForecastConfidence = 'high' | 'medium' | 'low';
+
+// How much the models disagree at one waypoint
+export interface EnsembleSpread {
+  modelCount: number;
+  temperature: ValueSpread;
+  precipitationIntensity: ValueSpread;
+  windSpeed: ValueSpread;
+  score: ValueSpread;
+  confidence: ForecastConfidence;
+}
+
+// Driving score range across models up to which the forecast counts as high / medium confidence
+const HIGH_CONFIDENCE_SCORE_RANGE = 10;
+const MEDIUM_CONFIDENCE_SCORE_RANGE = 25;
+
+// Multi-model hourly response: every field is suffixed with the model name
+interface MultiModelResponse {
+  hourly: Record<string, (number | null)[]>; // time is in UNIX seconds (UTC)
+}
+
+const fetchModelSeries = async (lat: number, lon: number): Promise<ForecastSeries[]> => {
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&hourly=temperature_2m,precipitation,weather_code,wind_speed_10m,visibility&models=${ENSEMBLE_MODELS.join(',')}&timeformat=unixtime`;
+
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error('Multi-model weather request failed');
+  }
+
+  const data: MultiModelResponse = await response.json();
+  const times = data.hourly.time as number[];
+
+  return ENSEMBLE_MODELS.map(model => {
+    const field = (name: string) => (data.hourly[`${name}_${model}`] ?? []) as (number | null)[];
+    const temperature = field('temperature_2m');
+    const precipitation = field('precipitation');
+    const weatherCode = field('weather_code');
+    const windSpeed = field('wind_speed_10m');
+    const visibility = field('visibility');
+
+    // Models only reach a limited number of days ahead; later hours are null
+    const steps: ForecastStep[] = [];
+    times.forEach((time, i) => {
+      if (temperature[i] === null || temperature[i] === undefined) return;
+      const code = weatherCode[i] ?? 0;
+      steps.push({
+        time: time * 1000,
+        temperature: temperature[i],
+        precipitationType: mapWeatherCodeToPrecipType(code),
+        precipitationIntensity: precipitation[i] ?? 0,
+        windSpeed: windSpeed[i] ?? 0,
+        visibility: (visibility[i] ?? 50000) / 1000,
+        weatherSymbol: mapWeatherCodeToSymbol(code)
+      });
+    });
+
+    return { source: `open-meteo:${model}`, lat, lon, steps };
+  }).filter(series => series.steps.length > 0);
+};
+
+const spreadOf = (values: number[]): ValueSpread => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  return { min: sorted[0], median, max: sorted[sorted.length - 1] };
+};
+
+/**
+ * Spread of the model forecasts at a location and time, or null when fewer than
+ * two models reach that time
+ */
+export const getEnsembleSpread = async (
+  lat: number,
+  lon: number,
+  targetTime: Date
+): Promise<EnsembleSpread | null> => {
+  const modelSeries = await getCachedSeries(lat, lon, fetchModelSeries, 'multi-model');
+  const target = targetTime.getTime();
+  const forecasts: WeatherData[] = modelSeries
+    .filter(series => target <= series.steps[series.steps.length - 1].time)
+    .map(series => sampleSeries(series, targetTime));
+  if (forecasts.length < 2) return null;
+
+  const score = spreadOf(forecasts.map(calculateDrivingScore));
+  const temperature = spreadOf(forecasts.map(forecast => forecast.temperature));
+  const precipitationIntensity = spreadOf(forecasts.map(forecast => forecast.precipitationIntensity));
+
+  // Models disagreeing about rain vs snow around freezing also makes the forecast uncertain
+  const scoreRange = score.max - score.min;
+  const phaseUncertain = temperature.min <= 0 && temperature.max > 0 && precipitationIntensity.max > 0;
+  let confidence: ForecastConfidence = 'low';
+  if (scoreRange <= HIGH_CONFIDENCE_SCORE_RANGE && !phaseUncertain) {
+    confidence = 'high';
+  } else if (scoreRange <= MEDIUM_CONFIDENCE_SCORE_RANGE) {
+    confidence = 'medium';
+  }
+
+  return {
+    modelCount: forecasts.length,
+    temperature,
+    precipitationIntensity,
+    windSpeed: spreadOf(forecasts.map(forecast => forecast.windSpeed)),
+    score,
+    confidence
+  };
+};
+
+export const getConfidenceLabel = (confidence: ForecastConfidence): string => {
+  switch (confidence) {
+    case 'high':
+      return 'High confidence';
+    case 'medium':
+      return 'Medium confidence';
+    case 'low':
+      return 'Low confidence';
+  }
+};
+
+/**
+ * Tooltip lines listing the min / median / max of each value across models
+ */
+export const formatSpreadForDisplay = (spread: EnsembleSpread): string[] => {
+  const format = (value: ValueSpread, digits: number, unit = '') =>
+    `${value.min.toFixed(digits)} / ${value.median.toFixed(digits)} / ${value.max.toFixed(digits)}${unit}`;
+  return [
+    `${getConfidenceLabel(spread.confidence)} (${spread.modelCount} models, min / median / max)`,
+    `Score: ${format(spread.score, 0)}`,
+    `Temperature: ${format(spread.temperature, 1, '°C')}`,
+    `Precipitation: ${format(spread.precipitationIntensity, 1, ' mm/h')}`,
+    `Wind: ${format(spread.windSpeed, 1, ' m/s')}`
+  ];
+};
@@ -0,0 +1,155 @@
+// Ferry crossings on a route and the sea conditions while crossing
+
+import type { RouteStep, WeatherData } from './apiUtils';
+import { getCachedSeries } from './forecastCache';
+import { getPositionAtDriveSeconds, type RouteTimeline } from './routeGeometry';
+
+export interface FerryCrossing {
+  name: string; // Ferry route as named in OpenStreetMap, e.g. "Trelleborg - Rostock"
+  startSeconds: number; // Driving time from departure when the ferry leaves
+  endSeconds: number; // Driving time from departure when the ferry arrives
+  startKm: number;
+  endKm: number;
+  geometry: [number, number][]; // [lat, lon] points of the sea leg
+}
+
+// Sea state at a point on a crossing
+export interface MarineConditions {
+  waveHeight: number | null; // Significant wave height in m (null where the marine model has no data)
+  wavePeriod: number | null; // s
+}
+
+export type CancellationRisk = 'none' | 'possible' | 'likely';
+
+const MARINE_API_URL = 'https://marine-api.open-meteo.com/v1/marine';
+
+// Mean wind (m/s) and wave height (m) at which crossings are often delayed or cancelled
+const CANCELLATION_LIKELY = { windSpeed: 20, waveHeight: 4 };
+const CANCELLATION_POSSIBLE = { windSpeed: 15, waveHeight: 2.5 };
+
+// How far (s) a crossing may lie from the nearest hour of the marine series and still use it
+const MARINE_STEP_TOLERANCE = 3600;
+
+/**
+ * Ferry legs of a route, from the OSRM step mode. Consecutive ferry steps (a
+ * crossing split at a waypoint) are merged.
+ */
+export const findFerryCrossings = (
+  steps: RouteStep[],
+  geometry: [number, number][],
+  timeline: RouteTimeline
+): FerryCrossing[] => {
+  const crossings: FerryCrossing[] = [];
+  let stepStartSeconds = 0;
+  let stepStartKm = 0;
+  let previousWasFerry = false;
+
+  steps.forEach(step => {
+    const stepEndSeconds = stepStartSeconds + step.duration;
+    const stepEndKm = stepStartKm + step.distance / 1000;
+    const isFerry = step.mode === 'ferry';
+
+    if (isFerry && previousWasFerry) {
+      const crossing = crossings[crossings.length - 1];
+      crossing.endSeconds = stepEndSeconds;
+      crossing.endKm = stepEndKm;
+    } else if (isFerry) {
+      crossings.push({
+        name: step.name || 'Ferry',
+        startSeconds: stepStartSeconds,
+        endSeconds: stepEndSeconds,
+        startKm: stepStartKm,
+        endKm: stepEndKm,
+        geometry: []
+      });
+    }
+
+    previousWasFerry = isFerry;
+    stepStartSeconds = stepEndSeconds;
+    stepStartKm = stepEndKm;
+  });
+
+  crossings.forEach(crossing => {
+    const inside = geometry.filter((_, index) =>
+      timeline.cumulativeDurations[index] > crossing.startSeconds &&
+      timeline.cumulativeDurations[index] < crossing.endSeconds
+    );
+    crossing.geometry = [
+      getPositionAtDriveSeconds(geometry, timeline, crossing.startSeconds).point,
+      ...inside,
+      getPositionAtDriveSeconds(geometry, timeline, crossing.endSeconds).point
+    ];
+  });
+
+  return crossings;
+};
+
+/**
+ * The crossing the vehicle is on after the given driving time, if any
+ */
+export const getFerryIndexAt = (crossings: FerryCrossing[], driveSeconds: number): number | undefined => {
+  const index = crossings.findIndex(crossing => driveSeconds > crossing.startSeconds && driveSeconds < crossing.endSeconds);
+  return index === -1 ? undefined : index;
+};
+
+// Subset of the Open-Meteo Marine response that we read
+interface MarineResponse {
+  hourly: {
+    time: number[]; // Unix seconds
+    wave_height: (number | null)[];
+    wave_period: (number | null)[];
+  };
+}
+
+const loadMarineSeries = async (lat: number, lon: number): Promise<MarineResponse> => {
+  const url = `${MARINE_API_URL}?latitude=${lat}&longitude=${lon}&hourly=wave_height,wave_period&timeformat=unixtime&forecast_days=7`;
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error('Marine forecast request failed');
+  }
+
+  return response.json();
+};
+
+/**
+ * Wave conditions at a point at the given time, from the nearest hour of the
+ * Open-Meteo Marine forecast. Unknown (null) when the time is outside the series.
+ */
+export const getMarineConditions = async (lat: number, lon: number, targetTime: Date): Promise<MarineConditions> => {
+  const { hourly } = await getCachedSeries(lat, lon, loadMarineSeries, 'open-meteo-marine');
+  if (hourly.time.length === 0) {
+    return { waveHeight: null, wavePeriod: null };
+  }
+
+  const target = targetTime.getTime() / 1000;
+  let nearest = 0;
+  hourly.time.forEach((time, index) => {
+    if (Math.abs(time - target) < Math.abs(hourly.time[nearest] - target)) {
+      nearest = index;
+    }
+  });
+  if (Math.abs(hourly.time[nearest] - target) > MARINE_STEP_TOLERANCE) {
+    return { waveHeight: null, wavePeriod: null };
+  }
+
+  return {
+    waveHeight: hourly.wave_height[nearest] ?? null,
+    wavePeriod: hourly.wave_period[nearest] ?? null
+  };
+};
+
+/**
+ * How likely wind and waves are to disrupt a crossing. Only meaningful for
+ * weather on a ferry leg.
+ */
+export const getCancellationRisk = (weather: WeatherData): CancellationRisk => {
+  const waveHeight = weather.marine?.waveHeight ?? 0;
+  if (weather.windSpeed >= CANCELLATION_LIKELY.windSpeed || waveHeight >= CANCELLATION_LIKELY.waveHeight) {
+    return 'likely';
+  }
+  if (weather.windSpeed >= CANCELLATION_POSSIBLE.windSpeed || waveHeight >= CANCELLATION_POSSIBLE.waveHeight) {
+    return 'possible';
+  }
+  return 'none';
+};
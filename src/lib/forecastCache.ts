@@ -0,0 +1,81 @@
+// A full forecast time series for one location, normalized to our WeatherData units.
+// Any target time is answered from the series without another request.
+
+export interface ForecastStep {
+  time: number; // Valid time (ms since epoch)
+  temperature: number;
+  precipitationType: number;
+  precipitationIntensity: number;
+  windSpeed: number;
+  visibility: number;
+  weatherSymbol: number;
+}
+
+export interface ForecastDay {
+  date: string; // YYYY-MM-DD in the location's local time
+  sunrise: Date | null;
+  sunset: Date | null;
+}
+
+export interface ForecastSeries {
+  source: string;
+  lat: number;
+  lon: number;
+  steps: ForecastStep[]; // Sorted by time
+  daily?: ForecastDay[];
+  utcOffset?: number; // Seconds the daily dates' local time is ahead of UTC
+  elevation?: number; // Height in m the values refer to, when the provider reports it
+}
+
+interface CacheEntry {
+  fetchedAt: number;
+  series: Promise<unknown>;
+}
+
+// Forecasts are updated roughly hourly, so a cached series stays useful for a while
+const CACHE_TTL_MS = 30 * 60 * 1000;
+
+// 0.01° is about 1 km, finer than the SMHI and Open-Meteo grids
+const COORDINATE_PRECISION = 100;
+
+const cache = new Map<string, CacheEntry>();
+
+export const roundCoordinate = (value: number): number => {
+  return Math.round(value * COORDINATE_PRECISION) / COORDINATE_PRECISION;
+};
+
+/**
+ * Get the forecast series for a location, loading it at most once per source and
+ * rounded coordinate within the cache lifetime. Concurrent callers share the same
+ * request; failed loads are not cached.
+ */
+export const getCachedSeries = <T = ForecastSeries>(
+  lat: number,
+  lon: number,
+  load: (lat: number, lon: number) => Promise<T>,
+  source: string = ''
+): Promise<T> => {
+  const roundedLat = roundCoordinate(lat);
+  const roundedLon = roundCoordinate(lon);
+  const key = `${source}:${roundedLat},${roundedLon}`;
+  const now = Date.now();
+
+  const cached = cache.get(key);
+  if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.series as Promise<T>;
+  }
+
+  const series = load(roundedLat, roundedLon);
+  cache.set(key, { fetchedAt: now, series });
+  series.catch(() => {
+    if (cache.get(key)?.series === series) {
+      cache.delete(key);
+    }
+  });
+
+  return series;
+};
+
+export const clearForecastCache = (): void => {
+  cache.clear();
+};
@@ -0,0 +1,127 @@
+// Sun glare: stretches where a low sun stands in front of the driver under a clear sky
+
+import type { RouteData, Waypoint, WeatherData } from './apiUtils';
+import { getFerryIndexAt } from './ferries';
+import { getClockTimeAtDriveSeconds } from './routeGeometry';
+import { getSolarPosition } from './solar';
+
+export interface GlareSegment {
+  start: Date; // When the trip drives into the glare
+  end: Date; // When it drives out of it
+  startKm: number;
+  endKm: number;
+  lowestSunElevation: number; // Degrees; the lower the sun, the harder it is to shade
+  geometry: [number, number][]; // [lat, lon] points of the stretch
+  waypointIndices: number[]; // Waypoints reached in the glare, or the one nearest to it
+}
+
+// The sun dazzles when it is above the horizon but below the sun visor...
+const MAX_SUN_ELEVATION = 25;
+// ...and within this many degrees of the driving direction
+const MAX_ANGLE_OFF_HEADING = 25;
+
+// Clear to half-clear skies (Wsymb2); with more cloud the sun is rarely blinding
+const CLEAR_SKY_SYMBOLS = [1, 2, 3, 4];
+
+// Glare stretches closer together than this are reported as one
+const MERGE_GAP_KM = 1;
+// Shorter stretches are bends rather than a hazard
+const MIN_LENGTH_KM = 1;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Compass bearing in degrees (clockwise from north) from one point to the next
+const getBearing = (from: [number, number], to: [number, number]): number => {
+  const lat1 = toRadians(from[0]);
+  const lat2 = toRadians(to[0]);
+  const dLon = toRadians(to[1] - from[1]);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+// Smallest angle between two bearings (0-180)
+const angleBetween = (a: number, b: number): number => {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+};
+
+// Index of the waypoint reached closest to the given driving time
+const getNearestWaypointIndex = (waypoints: Waypoint[], driveSeconds: number): number => {
+  let nearest = 0;
+  waypoints.forEach((waypoint, index) => {
+    if (Math.abs(waypoint.driveSeconds - driveSeconds) < Math.abs(waypoints[nearest].driveSeconds - driveSeconds)) {
+      nearest = index;
+    }
+  });
+  return nearest;
+};
+
+interface GlareRun {
+  startIndex: number; // First geometry segment in glare
+  endIndex: number; // Last geometry segment in glare
+  lowestSunElevation: number;
+}
+
+/**
+ * Stretches of the route where the sun will be low ahead of the driver at the
+ * time the trip gets there, and the nearest waypoint forecast shows a clear or
+ * half-clear sky. Ferry crossings are skipped.
+ */
+export const findGlareSegments = (
+  route: RouteData,
+  waypoints: Waypoint[],
+  weatherData: Map<number, WeatherData | null>
+): GlareSegment[] => {
+  if (waypoints.length === 0 || route.geometry.length < 2) return [];
+  const { cumulativeDurations, cumulativeDistances } = route.timeline;
+
+  const runs: GlareRun[] = [];
+  let current: GlareRun | null = null;
+
+  for (let i = 0; i < route.geometry.length - 1; i++) {
+    const from = route.geometry[i];
+    const to = route.geometry[i + 1];
+    if (from[0] === to[0] && from[1] === to[1]) continue;
+
+    const driveSeconds = (cumulativeDurations[i] + cumulativeDurations[i + 1]) / 2;
+    if (getFerryIndexAt(route.ferries, driveSeconds) !== undefined) continue;
+
+    const weather = weatherData.get(getNearestWaypointIndex(waypoints, driveSeconds));
+    if (!weather || !CLEAR_SKY_SYMBOLS.includes(weather.weatherSymbol)) continue;
+
+    const time = new Date(getClockTimeAtDriveSeconds(waypoints, driveSeconds));
+    const sun = getSolarPosition(time, from[0], from[1]);
+    const isGlare = sun.elevation > 0 && sun.elevation <= MAX_SUN_ELEVATION &&
+      angleBetween(sun.azimuth, getBearing(from, to)) <= MAX_ANGLE_OFF_HEADING;
+    if (!isGlare) continue;
+
+    if (current && cumulativeDistances[i] - cumulativeDistances[current.endIndex + 1] <= MERGE_GAP_KM) {
+      current.endIndex = i;
+      current.lowestSunElevation = Math.min(current.lowestSunElevation, sun.elevation);
+    } else {
+      current = { startIndex: i, endIndex: i, lowestSunElevation: sun.elevation };
+      runs.push(current);
+    }
+  }
+
+  return runs
+    .filter(run => cumulativeDistances[run.endIndex + 1] - cumulativeDistances[run.startIndex] >= MIN_LENGTH_KM)
+    .map(run => {
+      const startSeconds = cumulativeDurations[run.startIndex];
+      const endSeconds = cumulativeDurations[run.endIndex + 1];
+      const inside = waypoints
+        .map((waypoint, index) => ({ waypoint, index }))
+        .filter(({ waypoint }) => waypoint.driveSeconds >= startSeconds && waypoint.driveSeconds <= endSeconds)
+        .map(({ index }) => index);
+      return {
+        start: new Date(getClockTimeAtDriveSeconds(waypoints, startSeconds)),
+        end: new Date(getClockTimeAtDriveSeconds(waypoints, endSeconds)),
+        startKm: cumulativeDistances[run.startIndex],
+        endKm: cumulativeDistances[run.endIndex + 1],
+        lowestSunElevation: run.lowestSunElevation,
+        geometry: route.geometry.slice(run.startIndex, run.endIndex + 2),
+        waypointIndices: inside.length > 0 ? inside : [getNearestWaypointIndex(waypoints, (startSeconds + endSeconds) / 2)]
+      };
+    });
+};
@@ -0,0 +1,140 @@
+import type { Incident, IncidentClient, IncidentSeverity, IncidentType } from './types';
+
+// Parser for DATEX II situation publications (versions 2 and 3), the European
+// standard for exchanging traffic information.
+
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+const RECORD_TYPES: Record<string, IncidentType> = {
+  Accident: 'accident',
+  MaintenanceWorks: 'roadworks',
+  ConstructionWorks: 'roadworks',
+  Roadworks: 'roadworks',
+  AbnormalTraffic: 'congestion',
+  VehicleObstruction: 'obstruction',
+  GeneralObstruction: 'obstruction',
+  AnimalPresenceObstruction: 'obstruction',
+  EnvironmentalObstruction: 'obstruction',
+  InfrastructureDamageObstruction: 'obstruction',
+  WeatherRelatedRoadConditions: 'weather',
+  NonWeatherRelatedRoadConditions: 'weather',
+  PoorEnvironmentConditions: 'weather',
+};
+
+const TYPE_TITLES: Record<IncidentType, string> = {
+  accident: 'Accident',
+  roadworks: 'Roadworks',
+  closure: 'Road closed',
+  obstruction: 'Obstruction',
+  weather: 'Poor road conditions',
+  congestion: 'Slow traffic',
+  other: 'Traffic message',
+};
+
+// Lane or road management types that shut the road rather than narrow it
+const CLOSURE_TYPES = ['roadClosed', 'carriagewayClosures', 'closedPermanentlyForTheWinter'];
+
+const SEVERITIES: Record<string, IncidentSeverity> = {
+  lowest: 'low',
+  low: 'low',
+  medium: 'medium',
+  high: 'high',
+  highest: 'high',
+};
+
+const descendants = (parent: Element, name: string): Element[] => {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+};
+
+const descendantText = (parent: Element, name: string): string => {
+  return descendants(parent, name)[0]?.textContent?.trim() ?? '';
+};
+
+const parseDate = (value: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// xsi:type without its namespace prefix, e.g. "sit:Accident" -> "Accident"
+const recordType = (record: Element): string => {
+  const type = record.getAttributeNS(XSI_NAMESPACE, 'type') || record.getAttribute('xsi:type') || '';
+  return type.slice(type.indexOf(':') + 1);
+};
+
+const parsePoints = (record: Element): [number, number][] => {
+  return [...descendants(record, 'pointCoordinates'), ...descendants(record, 'locationForDisplay')]
+    .map(element => [Number(descendantText(element, 'latitude')), Number(descendantText(element, 'longitude'))] as [number, number])
+    .filter(([lat, lon]) => Number.isFinite(lat) && Number.isFinite(lon) && !(lat === 0 && lon === 0));
+};
+
+// Public comment in the preferred language, else the first one
+const parseComment = (record: Element, preferredLanguage: string): string => {
+  const values = descendants(record, 'generalPublicComment').flatMap(comment => descendants(comment, 'value'));
+  const preferred = values.find(value => value.getAttribute('lang')?.startsWith(preferredLanguage));
+  return (preferred ?? values[0])?.textContent?.trim() ?? '';
+};
+
+/**
+ * Parse the situation records of a DATEX II publication. Suspended records and
+ * records without a location are left out.
+ */
+export const parseDatex2Situations = (xml: string, source: string, preferredLanguage = 'en'): Incident[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a valid DATEX II document');
+  }
+
+  const incidents: Incident[] = [];
+  descendants(doc.documentElement, 'situationRecord').forEach(record => {
+    if (descendantText(record, 'validityStatus') === 'suspended') return;
+    const points = parsePoints(record);
+    if (points.length === 0) return;
+
+    const managementType = descendantText(record, 'roadOrCarriagewayOrLaneManagementType');
+    const isClosure = CLOSURE_TYPES.includes(managementType);
+    const type = isClosure ? 'closure' : RECORD_TYPES[recordType(record)] ?? 'other';
+    const situation = record.parentElement;
+    const severity = descendantText(record, 'severity') || (situation ? descendantText(situation, 'overallSeverity') : '');
+    const roadName = descendantText(record, 'roadNumber') || descendantText(record, 'roadName') || null;
+
+    incidents.push({
+      id: record.getAttribute('id') ?? `${source}-${incidents.length}`,
+      source,
+      type,
+      isClosure,
+      title: roadName ? `${TYPE_TITLES[type]}, ${roadName}` : TYPE_TITLES[type],
+      description: parseComment(record, preferredLanguage),
+      roadName,
+      severity: SEVERITIES[severity] ?? 'unknown',
+      start: parseDate(descendantText(record, 'overallStartTime')),
+      end: parseDate(descendantText(record, 'overallEndTime')),
+      points
+    });
+  });
+
+  return incidents;
+};
+
+/**
+ * Client for a URL serving a DATEX II situation publication. The whole
+ * publication is fetched; incidents away from the route are dropped when matching.
+ */
+export const createDatex2Client = (url: string, name: string = new URL(url).hostname): IncidentClient => ({
+  id: url,
+  name,
+  attribution: {
+    text: name,
+    url
+  },
+
+  async fetchIncidents() {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`DATEX II request failed: ${url}`);
+    }
+
+    return parseDatex2Situations(await response.text(), url);
+  }
+});
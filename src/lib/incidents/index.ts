@@ -0,0 +1,216 @@
+import type { RouteData, Waypoint } from '../apiUtils';
+import { getBoundingBox, getClockTimeAtDriveSeconds, getNearestRoutePosition, type BoundingBox } from '../routeGeometry';
+import { getTrafikverketConfig } from '../trafikverketApi';
+import { createDatex2Client } from './datex2';
+import { createTrafikverketIncidentClient } from './trafikverket';
+import type { Incident, IncidentBounds, IncidentClient } from './types';
+
+export type { Incident, IncidentBounds, IncidentClient, IncidentSeverity, IncidentType } from './types';
+
+// An incident on the planned route and when the trip gets there
+export interface RouteIncident {
+  incident: Incident;
+  distanceFromStartKm: number;
+  eta: Date;
+  activeAtEta: boolean; // Started and not yet expected to be over when the trip arrives
+}
+
+// Incidents further than this from the route geometry are on another road
+const CORRIDOR_KM = 0.5;
+
+// Margin around the route's bounding box when asking feeds for incidents (degrees)
+const BOUNDS_MARGIN = 0.05;
+
+// Incident points are only measured against the stretches of this many geometry
+// segments whose bounding box (widened by the corridor) they fall in
+const BLOCK_SEGMENTS = 64;
+
+const KM_PER_DEGREE = 111.32;
+
+// Traffic situations change quickly
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// VITE_DATEX_FEEDS: comma-separated URLs of DATEX II situation publications
+const datexFeeds: string[] = (import.meta.env.VITE_DATEX_FEEDS ?? '')
+  .split(',')
+  .map((value: string) => value.trim())
+  .filter(Boolean);
+
+// A malformed feed URL is skipped, so one bad setting cannot break the app on load
+const createDatexClients = (urls: string[]): IncidentClient[] => urls.flatMap(url => {
+  try {
+    return [createDatex2Client(url)];
+  } catch (err) {
+    console.error(`Ignoring invalid DATEX II feed URL "${url}":`, err);
+    return [];
+  }
+});
+
+const trafikverketConfig = getTrafikverketConfig();
+const clients: IncidentClient[] = [
+  ...(trafikverketConfig ? [createTrafikverketIncidentClient(trafikverketConfig)] : []),
+  ...createDatexClients(datexFeeds),
+];
+
+const cache = new Map<string, { fetchedAt: number; incidents: Promise<Incident[]> }>();
+
+/**
+ * Add an incident client (replacing one with the same id)
+ */
+export const registerIncidentClient = (client: IncidentClient) => {
+  const index = clients.findIndex(existing => existing.id === client.id);
+  if (index === -1) {
+    clients.push(client);
+  } else {
+    clients[index] = client;
+  }
+  cache.clear();
+};
+
+export const getIncidentClients = (): IncidentClient[] => [...clients];
+
+const getRouteBounds = (geometry: [number, number][]): IncidentBounds => {
+  const box = getBoundingBox(geometry);
+  return {
+    minLat: Math.floor((box.minLat - BOUNDS_MARGIN) * 10) / 10,
+    maxLat: Math.ceil((box.maxLat + BOUNDS_MARGIN) * 10) / 10,
+    minLon: Math.floor((box.minLon - BOUNDS_MARGIN) * 10) / 10,
+    maxLon: Math.ceil((box.maxLon + BOUNDS_MARGIN) * 10) / 10,
+  };
+};
+
+interface RouteBlock {
+  start: number; // First geometry point
+  end: number; // Last geometry point (shared with the next block)
+  box: BoundingBox; // Widened by the corridor
+}
+
+const getRouteBlocks = (geometry: [number, number][]): RouteBlock[] => {
+  const blocks: RouteBlock[] = [];
+  for (let start = 0; start < Math.max(1, geometry.length - 1); start += BLOCK_SEGMENTS) {
+    const end = Math.min(start + BLOCK_SEGMENTS, geometry.length - 1);
+    const box = getBoundingBox(geometry.slice(start, end + 1));
+    const latMargin = CORRIDOR_KM / KM_PER_DEGREE;
+    const lonMargin = latMargin / Math.cos(Math.max(Math.abs(box.minLat), Math.abs(box.maxLat)) * Math.PI / 180);
+    blocks.push({
+      start,
+      end,
+      box: {
+        minLat: box.minLat - latMargin,
+        maxLat: box.maxLat + latMargin,
+        minLon: box.minLon - lonMargin,
+        maxLon: box.maxLon + lonMargin,
+      }
+    });
+  }
+  return blocks;
+};
+
+// Nearest position on the route to a point, searching only the blocks around it;
+// null when the point is outside the corridor everywhere
+const getNearestInCorridor = (route: RouteData, blocks: RouteBlock[], [lat, lon]: [number, number]) => {
+  return blocks
+    .filter(({ box }) => lat >= box.minLat && lat <= box.maxLat && lon >= box.minLon && lon <= box.maxLon)
+    .map(({ start, end }) => getNearestRoutePosition(route.geometry.slice(start, end + 1), {
+      cumulativeDurations: route.timeline.cumulativeDurations.slice(start, end + 1),
+      cumulativeDistances: route.timeline.cumulativeDistances.slice(start, end + 1),
+    }, [lat, lon]))
+    .reduce<ReturnType<typeof getNearestRoutePosition> | null>((a, b) => (a === null || b.offRouteKm < a.offRouteKm ? b : a), null);
+};
+
+// Incidents from every client; a failing client is logged and contributes nothing.
+// Bounds are rounded to 0.1° so alternative routes share cache entries.
+const fetchIncidents = (bounds: IncidentBounds): Promise<Incident[]> => {
+  const key = `${bounds.minLat},${bounds.minLon},${bounds.maxLat},${bounds.maxLon}`;
+  const now = Date.now();
+  const cached = cache.get(key);
+  if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.incidents;
+  }
+
+  const incidents = Promise.all(clients.map(async client => {
+    try {
+      return await client.fetchIncidents(bounds);
+    } catch (err) {
+      console.error(`Failed to fetch incidents from ${client.name}:`, err);
+      return [];
+    }
+  })).then(results => results.flat());
+  cache.set(key, { fetchedAt: now, incidents });
+  return incidents;
+};
+
+/**
+ * Incidents within the corridor around the route, in the order the trip reaches them
+ */
+export const matchRouteIncidents = (
+  incidents: Incident[],
+  route: RouteData,
+  waypoints: Waypoint[]
+): RouteIncident[] => {
+  if (waypoints.length === 0 || route.geometry.length === 0) return [];
+
+  const now = Date.now();
+  const blocks = getRouteBlocks(route.geometry);
+  const matches: RouteIncident[] = [];
+  incidents.forEach(incident => {
+    if (incident.end && incident.end.getTime() < now) return;
+    const nearest = incident.points
+      .map(point => getNearestInCorridor(route, blocks, point))
+      .reduce((a, b) => (b !== null && (a === null || b.offRouteKm < a.offRouteKm) ? b : a), null);
+    if (!nearest || nearest.offRouteKm > CORRIDOR_KM) return;
+
+    const eta = getClockTimeAtDriveSeconds(waypoints, nearest.driveSeconds);
+    matches.push({
+      incident,
+      distanceFromStartKm: nearest.distanceKm,
+      eta: new Date(eta),
+      activeAtEta: (incident.start === null || incident.start.getTime() <= eta) &&
+        (incident.end === null || eta < incident.end.getTime())
+    });
+  });
+
+  return matches.sort((a, b) => a.distanceFromStartKm - b.distanceFromStartKm);
+};
+
+/**
+ * Traffic incidents along a planned route. Returns an empty list when no client
+ * is configured or none could be reached.
+ */
+export const findRouteIncidents = async (route: RouteData, waypoints: Waypoint[]): Promise<RouteIncident[]> => {
+  if (clients.length === 0 || route.geometry.length === 0) return [];
+  return matchRouteIncidents(await fetchIncidents(getRouteBounds(route.geometry)), route, waypoints);
+};
+
+/**
+ * Closures the trip would run into: on the route and in force at the ETA
+ */
+export const getClosuresAtEta = (incidents: RouteIncident[]): RouteIncident[] => {
+  return incidents.filter(({ incident, activeAtEta }) => incident.isClosure && activeAtEta);
+};
+
+const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.round(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes} min`;
+  return minutes === 0 ? `${hours} h` : `${hours} h ${minutes} min`;
+};
+
+const formatClock = (date: Date): string => {
+  return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * How long an incident is expected to last, relative to now, e.g. "until 18:30
+ * (about 2 h 15 min)" or "until further notice"
+ */
+export const describeIncidentDuration = (incident: Incident, now: Date = new Date()): string => {
+  if (incident.start && incident.start.getTime() > now.getTime()) {
+    return incident.end
+      ? `from ${formatClock(incident.start)} to ${formatClock(incident.end)}`
+      : `from ${formatClock(incident.start)} until further notice`;
+  }
+  if (!incident.end) return 'until further notice';
+  return `until ${formatClock(incident.end)} (about ${formatDuration(incident.end.getTime() - now.getTime())})`;
+};
@@ -0,0 +1,107 @@
+import { parseWktPoints, queryTrafikverket, TRAFIKVERKET_ATTRIBUTION, type TrafikverketConfig } from '../trafikverketApi';
+import type { Incident, IncidentClient, IncidentSeverity, IncidentType } from './types';
+
+interface Deviation {
+  Id: string;
+  Header?: string;
+  Message?: string;
+  MessageType?: string; // Swedish category, e.g. "Olycka", "Vägarbete"
+  IconId?: string; // e.g. "roadAccident", "roadwork", "roadClosed"
+  SeverityCode?: number; // 1 = no impact, 2 = small, 4 = large, 5 = very large
+  RoadNumber?: string;
+  LocationDescriptor?: string;
+  TrafficRestrictionType?: string;
+  StartTime?: string;
+  EndTime?: string;
+  ValidUntilFurtherNotice?: boolean;
+  Geometry?: {
+    Point?: { WGS84?: string };
+    Line?: { WGS84?: string };
+  };
+}
+
+interface Situation {
+  Id: string;
+  Deviation?: Deviation[];
+}
+
+const ICON_TYPES: Record<string, IncidentType> = {
+  roadAccident: 'accident',
+  roadwork: 'roadworks',
+  roadClosed: 'closure',
+  queuingTraffic: 'congestion',
+  slowTraffic: 'congestion',
+  animalsOnRoad: 'obstruction',
+  objectOnRoad: 'obstruction',
+  vehicleOnWrongCarriageway: 'obstruction',
+  roadConditions: 'weather',
+  weatherConditions: 'weather',
+};
+
+const MESSAGE_TYPES: Record<string, IncidentType> = {
+  Olycka: 'accident',
+  Vägarbete: 'roadworks',
+  Hinder: 'obstruction',
+  Väglag: 'weather',
+};
+
+const getSeverity = (code: number | undefined): IncidentSeverity => {
+  if (code === undefined) return 'unknown';
+  if (code >= 4) return 'high';
+  if (code >= 2) return 'medium';
+  return 'low';
+};
+
+const parseDate = (value: string | undefined): Date | null => {
+  const date = new Date(value ?? '');
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toIncident = (situation: Situation, deviation: Deviation): Incident | null => {
+  const points = parseWktPoints(deviation.Geometry?.Line?.WGS84);
+  if (points.length === 0) points.push(...parseWktPoints(deviation.Geometry?.Point?.WGS84));
+  if (points.length === 0) return null;
+
+  const isClosure = deviation.IconId === 'roadClosed' || /avstängd|closed/i.test(deviation.TrafficRestrictionType ?? '');
+  const type = isClosure
+    ? 'closure'
+    : ICON_TYPES[deviation.IconId ?? ''] ?? MESSAGE_TYPES[deviation.MessageType ?? ''] ?? 'other';
+
+  return {
+    id: `${situation.Id}/${deviation.Id}`,
+    source: 'trafikverket',
+    type,
+    isClosure,
+    title: deviation.Header || deviation.MessageType || 'Traffic message',
+    description: [deviation.LocationDescriptor, deviation.Message].filter(Boolean).join(' – '),
+    roadName: deviation.RoadNumber ?? null,
+    severity: getSeverity(deviation.SeverityCode),
+    start: parseDate(deviation.StartTime),
+    end: deviation.ValidUntilFurtherNotice ? null : parseDate(deviation.EndTime),
+    points
+  };
+};
+
+/**
+ * Client for Trafikverket's traffic situations (accidents, roadworks, closures, ...)
+ */
+export const createTrafikverketIncidentClient = (config: TrafikverketConfig): IncidentClient => ({
+  id: 'trafikverket',
+  name: 'Trafikverket',
+  attribution: TRAFIKVERKET_ATTRIBUTION,
+
+  async fetchIncidents(bounds) {
+    const situations = await queryTrafikverket<Situation>(config, 'Situation', `
+      <QUERY objecttype="Situation" namespace="Road.TrafficInfo" schemaversion="1.5">
+        <FILTER>
+          <WITHIN name="Deviation.Geometry.Point.WGS84" shape="box" value="${bounds.minLon} ${bounds.minLat}, ${bounds.maxLon} ${bounds.maxLat}" />
+        </FILTER>
+      </QUERY>`);
+
+    return situations.flatMap(situation =>
+      (situation.Deviation ?? [])
+        .map(deviation => toIncident(situation, deviation))
+        .filter((incident): incident is Incident => incident !== null)
+    );
+  }
+});
@@ -0,0 +1,40 @@
+export type IncidentType = 'accident' | 'roadworks' | 'closure' | 'obstruction' | 'weather' | 'congestion' | 'other';
+
+export type IncidentSeverity = 'low' | 'medium' | 'high' | 'unknown';
+
+// A traffic situation (accident, roadworks, closure, ...) normalized from a feed
+export interface Incident {
+  id: string;
+  source: string; // Id of the client that reported it
+  type: IncidentType;
+  isClosure: boolean; // The road is closed to traffic, not only slowed down
+  title: string;
+  description: string;
+  roadName: string | null;
+  severity: IncidentSeverity;
+  start: Date | null;
+  end: Date | null; // Expected end; null when unknown or until further notice
+  points: [number, number][]; // [lat, lon] of the location, a single point or a line
+}
+
+export interface IncidentBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+/**
+ * A source of traffic situations, e.g. a DATEX II publication or Trafikverket's
+ * situation messages
+ */
+export interface IncidentClient {
+  id: string;
+  name: string;
+  attribution: {
+    text: string;
+    url: string;
+  };
+  // Current and planned incidents, at least those inside the bounds
+  fetchIncidents(bounds: IncidentBounds): Promise<Incident[]>;
+}
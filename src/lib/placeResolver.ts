@@ -0,0 +1,116 @@
+import { geocodeCandidates, reverseGeocode, type Coordinates, type GeocodeCandidate, type PlaceInput } from './apiUtils';
+import { haversineKm } from './routeGeometry';
+
+// A candidate with its ranking score and distance to the reference place
+export interface RankedCandidate extends GeocodeCandidate {
+  score: number;
+  distanceKm: number | null; // From the other end of the trip, when known
+}
+
+// Importance lost per 1000 km from the reference place (capped at MAX_PENALTY_KM)
+const DISTANCE_WEIGHT = 0.2;
+const MAX_PENALTY_KM = 3000;
+// Candidates scoring within this margin of the best one are too close to call
+const AMBIGUITY_MARGIN = 0.08;
+const MAX_CHOICES = 5;
+
+/**
+ * Rank geocoding candidates by importance, preferring places near the reference
+ * (the other end of the trip), best first
+ */
+export const rankCandidates = (
+  candidates: GeocodeCandidate[],
+  reference: Coordinates | null
+): RankedCandidate[] => {
+  return candidates
+    .map(candidate => {
+      const distanceKm = reference
+        ? haversineKm([reference.lat, reference.lon], [candidate.lat, candidate.lon])
+        : null;
+      const penalty = distanceKm === null ? 0 : DISTANCE_WEIGHT * Math.min(distanceKm, MAX_PENALTY_KM) / 1000;
+      return { ...candidate, distanceKm, score: candidate.importance - penalty };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Whether the best candidates are too close in rank to pick one automatically
+ */
+export const isAmbiguous = (ranked: RankedCandidate[]): boolean => {
+  return ranked.length > 1 && ranked[0].score - ranked[1].score < AMBIGUITY_MARGIN;
+};
+
+/**
+ * Ask the user which candidate they meant; resolves null when they cancel
+ */
+export type CandidateChooser = (place: PlaceInput, candidates: RankedCandidate[]) => Promise<RankedCandidate | null>;
+
+const toCoordinates = ({ lat, lon, displayName }: Coordinates): Coordinates => ({ lat, lon, displayName });
+
+/**
+ * Coordinates for the trip's places (from, to, then vias). Places with known
+ * coordinates are used as-is; names are geocoded, ranked against the other end of
+ * the trip and, when ambiguous, handed to the chooser. Resolves null if the user
+ * cancels a choice or a place has no candidates at all.
+ */
+export const resolvePlaces = async (
+  from: PlaceInput,
+  to: PlaceInput,
+  vias: PlaceInput[],
+  choose: CandidateChooser
+): Promise<Coordinates[] | null> => {
+  const places = [from, to, ...vias];
+  const candidateLists = await Promise.all(places.map(place =>
+    place.coordinates ? Promise.resolve(null) : geocodeCandidates(place.name, MAX_CHOICES)
+  ));
+
+  // Best guess for every place, used as the reference when ranking the others
+  const provisional: Coordinates[] = [];
+  for (let index = 0; index < places.length; index++) {
+    const best = places[index].coordinates ?? candidateLists[index]?.[0];
+    if (!best) return null;
+    provisional.push(best);
+  }
+
+  const resolved: Coordinates[] = [];
+  for (let index = 0; index < places.length; index++) {
+    const candidates = candidateLists[index];
+    if (!candidates) {
+      resolved.push(provisional[index]);
+      continue;
+    }
+
+    // The endpoints are ranked against each other; via-points against the start
+    const reference = index === 0 ? provisional[1] : provisional[0];
+    const ranked = rankCandidates(candidates, reference);
+    if (!isAmbiguous(ranked)) {
+      resolved.push(toCoordinates(ranked[0]));
+      continue;
+    }
+
+    const choice = await choose(places[index], ranked);
+    if (!choice) return null;
+    resolved.push(toCoordinates(choice));
+    provisional[index] = choice;
+  }
+
+  return resolved;
+};
+
+// Where a point picked on the map goes in the route form
+export type MapPickTarget = 'from' | 'via' | 'to';
+
+export interface PickedPlace {
+  target: MapPickTarget;
+  place: PlaceInput;
+}
+
+/**
+ * A form place for a point (current location or map pick), named after the
+ * municipality it lies in, or its coordinates when reverse geocoding finds nothing
+ */
+export const placeFromPoint = async (lat: number, lon: number): Promise<PlaceInput> => {
+  const { municipality } = await reverseGeocode(lat, lon);
+  const name = municipality || `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+  return { name, coordinates: { lat, lon, displayName: name } };
+};
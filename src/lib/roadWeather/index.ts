@@ -0,0 +1,96 @@
+import type { Waypoint, WeatherData } from '../apiUtils';
+import { getCountryAt } from '../countries';
+import { roundCoordinate } from '../forecastCache';
+import { getTrafikverketConfig } from '../trafikverketApi';
+import { createTrafikverketClient } from './trafikverket';
+import type { RoadWeatherClient, RoadWeatherReading } from './types';
+
+export type { RoadSurfaceState, RoadWeatherClient, RoadWeatherReading } from './types';
+
+// Stations further away than this say little about the road at a waypoint
+const SEARCH_RADIUS_KM = 15;
+
+// Observations describe the road now; beyond this they no longer apply at the arrival time
+export const ROAD_WEATHER_HORIZON_HOURS = 2;
+
+// Stations report every 10-30 minutes
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+const trafikverketConfig = getTrafikverketConfig();
+let client: RoadWeatherClient | null = trafikverketConfig ? createTrafikverketClient(trafikverketConfig) : null;
+
+const cache = new Map<string, { fetchedAt: number; readings: Promise<RoadWeatherReading[]> }>();
+
+/**
+ * Replace the road weather client (null turns road weather off)
+ */
+export const setRoadWeatherClient = (replacement: RoadWeatherClient | null) => {
+  client = replacement;
+  cache.clear();
+};
+
+export const getRoadWeatherClient = (): RoadWeatherClient | null => client;
+
+/**
+ * Latest readings from the stations nearest a point, nearest first. Empty when no
+ * client is configured or the point lies outside its coverage.
+ */
+export const getRoadWeatherNear = async (lat: number, lon: number, country = getCountryAt(lat, lon)): Promise<RoadWeatherReading[]> => {
+  if (!client || country === null || !client.coverage.includes(country)) return [];
+
+  const key = `${roundCoordinate(lat)},${roundCoordinate(lon)}`;
+  const now = Date.now();
+  const cached = cache.get(key);
+  if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.readings;
+  }
+
+  const readings = client.fetchReadings(lat, lon, SEARCH_RADIUS_KM);
+  cache.set(key, { fetchedAt: now, readings });
+  readings.catch(() => cache.delete(key));
+  return readings;
+};
+
+/**
+ * Add the nearest station reading with surface data to the weather of every
+ * waypoint reached within the road weather horizon. Lookups that fail leave the
+ * waypoint's weather unchanged.
+ */
+export const attachRoadWeather = async (
+  waypoints: Waypoint[],
+  weatherData: Map<number, WeatherData | null>
+): Promise<Map<number, WeatherData | null>> => {
+  const horizon = Date.now() + ROAD_WEATHER_HORIZON_HOURS * 3600000;
+  const withRoad = new Map(weatherData);
+
+  await Promise.all(waypoints.map(async (waypoint, index) => {
+    const weather = weatherData.get(index);
+    if (!weather || waypoint.arrivalTime.getTime() > horizon) return;
+    try {
+      const readings = await getRoadWeatherNear(waypoint.lat, waypoint.lon, waypoint.country);
+      const road = readings.find(reading => reading.surfaceTemperature !== null || reading.surfaceState !== 'unknown');
+      if (road) {
+        withRoad.set(index, { ...weather, road });
+      }
+    } catch (err) {
+      console.error(`Failed to fetch road weather for waypoint ${index}:`, err);
+    }
+  }));
+
+  return withRoad;
+};
+
+const SURFACE_STATE_LABELS: Record<RoadWeatherReading['surfaceState'], string> = {
+  dry: 'Dry',
+  moist: 'Moist',
+  wet: 'Wet',
+  slush: 'Slush',
+  snow: 'Snow',
+  ice: 'Ice',
+  frost: 'Frost',
+  unknown: 'Unknown surface'
+};
+
+export const getSurfaceStateLabel = (state: RoadWeatherReading['surfaceState']): string => {
+  return SURFACE_STATE_LABELS[state];
+};
@@ -0,0 +1,88 @@
+import { haversineKm } from '../routeGeometry';
+import { parseWktPoints, queryTrafikverket, TRAFIKVERKET_ATTRIBUTION, type TrafikverketConfig } from '../trafikverketApi';
+import type { RoadSurfaceState, RoadWeatherClient, RoadWeatherReading } from './types';
+
+// Stations returned per lookup; only the nearest few are of interest
+const MAX_STATIONS = 5;
+
+interface MeasuredValue {
+  Value?: number;
+}
+
+interface WeatherMeasurepoint {
+  Id: string;
+  Name: string;
+  Geometry?: { WGS84?: string }; // "POINT (lon lat)"
+  Observation?: {
+    Sample?: string;
+    Air?: { Temperature?: MeasuredValue; Dewpoint?: MeasuredValue };
+    Surface?: {
+      Temperature?: MeasuredValue;
+      Grip?: MeasuredValue;
+      Ice?: boolean;
+      Snow?: boolean;
+      Water?: boolean;
+    };
+  };
+}
+
+const getSurfaceState = (observation: WeatherMeasurepoint['Observation']): RoadSurfaceState => {
+  const surface = observation?.Surface;
+  if (!surface || (surface.Ice === undefined && surface.Snow === undefined && surface.Water === undefined)) {
+    return 'unknown';
+  }
+  const surfaceTemperature = surface.Temperature?.Value;
+  if (surface.Ice) return 'ice';
+  if (surface.Snow) return surface.Water && surfaceTemperature !== undefined && surfaceTemperature > 0 ? 'slush' : 'snow';
+  if (surface.Water) return 'wet';
+
+  // Below freezing, a surface colder than the dew point collects hoar frost and one
+  // just above it is close to doing so
+  const dewpoint = observation?.Air?.Dewpoint?.Value;
+  if (surfaceTemperature !== undefined && dewpoint !== undefined && surfaceTemperature <= 0) {
+    if (surfaceTemperature < dewpoint) return 'frost';
+    if (surfaceTemperature - dewpoint < 1) return 'moist';
+  }
+  return 'dry';
+};
+
+/**
+ * Client for Trafikverket's road weather stations (WeatherMeasurepoint)
+ */
+export const createTrafikverketClient = (config: TrafikverketConfig): RoadWeatherClient => ({
+  id: 'trafikverket',
+  name: 'Trafikverket',
+  attribution: TRAFIKVERKET_ATTRIBUTION,
+  coverage: ['SE'],
+
+  async fetchReadings(lat, lon, radiusKm) {
+    const stations = await queryTrafikverket<WeatherMeasurepoint>(config, 'WeatherMeasurepoint', `
+      <QUERY objecttype="WeatherMeasurepoint" namespace="Road.WeatherInfo" schemaversion="2.1" limit="${MAX_STATIONS}">
+        <FILTER>
+          <WITHIN name="Geometry.WGS84" shape="center" value="${lon} ${lat}" radius="${Math.round(radiusKm * 1000)}m" />
+        </FILTER>
+      </QUERY>`);
+
+    const readings: RoadWeatherReading[] = [];
+    stations.forEach(station => {
+      const [position] = parseWktPoints(station.Geometry?.WGS84);
+      const measuredAt = new Date(station.Observation?.Sample ?? '');
+      if (!position || isNaN(measuredAt.getTime())) return;
+
+      readings.push({
+        stationId: station.Id,
+        stationName: station.Name,
+        lat: position[0],
+        lon: position[1],
+        distanceKm: haversineKm([lat, lon], position),
+        measuredAt,
+        surfaceTemperature: station.Observation?.Surface?.Temperature?.Value ?? null,
+        airTemperature: station.Observation?.Air?.Temperature?.Value ?? null,
+        surfaceState: getSurfaceState(station.Observation),
+        friction: station.Observation?.Surface?.Grip?.Value ?? null
+      });
+    });
+
+    return readings.sort((a, b) => a.distanceKm - b.distanceKm);
+  }
+});
@@ -0,0 +1,34 @@
+import type { CountryCode } from '../countries';
+
+// Reported state of the road surface at a station
+export type RoadSurfaceState = 'dry' | 'moist' | 'wet' | 'slush' | 'snow' | 'ice' | 'frost' | 'unknown';
+
+// Latest observation from one road weather station
+export interface RoadWeatherReading {
+  stationId: string;
+  stationName: string;
+  lat: number;
+  lon: number;
+  distanceKm: number; // From the point the reading was looked up for
+  measuredAt: Date;
+  surfaceTemperature: number | null; // °C
+  airTemperature: number | null; // °C
+  surfaceState: RoadSurfaceState;
+  friction: number | null; // Grip coefficient, 0-1 (about 0.8 on dry asphalt)
+}
+
+/**
+ * A source of road weather station observations, e.g. Trafikverket's open API or
+ * a local fixture server speaking the same protocol
+ */
+export interface RoadWeatherClient {
+  id: string;
+  name: string;
+  attribution: {
+    text: string;
+    url: string;
+  };
+  coverage: CountryCode[]; // Countries whose roads the stations cover
+  // Latest readings from stations within radiusKm of the point, nearest first
+  fetchReadings(lat: number, lon: number, radiusKm: number): Promise<RoadWeatherReading[]>;
+}
@@ -0,0 +1,219 @@
+// Helpers for locating points along a route geometry by driving time or distance
+
+import type { Waypoint } from './apiUtils';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance in km between two [lat, lon] points
+ */
+export const haversineKm = (a: [number, number], b: [number, number]): number => {
+  const dLat = toRadians(b[0] - a[0]);
+  const dLon = toRadians(b[1] - a[1]);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[0])) * Math.cos(toRadians(b[0])) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Closed ring of [lat, lon] points (the first point is not repeated at the end)
+export type Polygon = [number, number][];
+
+/**
+ * Whether a point lies inside a polygon. Ray casting: count how many polygon edges
+ * a ray eastwards from the point crosses.
+ */
+export const isInPolygon = (lat: number, lon: number, polygon: Polygon): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i];
+    const [latJ, lonJ] = polygon[j];
+    if ((latI > lat) !== (latJ > lat) &&
+        lon < lonI + (lat - latI) * (lonJ - lonI) / (latJ - latI)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+/**
+ * Bounding box of [lat, lon] points. Computed in a loop rather than by spreading
+ * into Math.min, which overflows the call stack on long route geometries.
+ */
+export const getBoundingBox = (points: [number, number][]): BoundingBox => {
+  const box = { minLat: Infinity, maxLat: -Infinity, minLon: Infinity, maxLon: -Infinity };
+  points.forEach(([lat, lon]) => {
+    box.minLat = Math.min(box.minLat, lat);
+    box.maxLat = Math.max(box.maxLat, lat);
+    box.minLon = Math.min(box.minLon, lon);
+    box.maxLon = Math.max(box.maxLon, lon);
+  });
+  return box;
+};
+
+export interface RouteTimeline {
+  cumulativeDurations: number[]; // Driving seconds from the start at each geometry point
+  cumulativeDistances: number[]; // km from the start at each geometry point
+}
+
+/**
+ * Cumulative time and distance at every geometry point.
+ * Uses the per-segment OSRM annotations when they line up with the geometry; otherwise
+ * falls back to straight-line segment lengths with time spread evenly over distance.
+ * Both are scaled so the last point matches the route totals.
+ */
+export const buildRouteTimeline = (
+  geometry: [number, number][],
+  totalDuration: number,
+  totalDistanceKm: number,
+  segmentDurations?: number[],
+  segmentDistances?: number[]
+): RouteTimeline => {
+  const segmentCount = Math.max(0, geometry.length - 1);
+  const hasAnnotations =
+    segmentDurations?.length === segmentCount &&
+    segmentDistances?.length === segmentCount;
+
+  const distances = hasAnnotations
+    ? segmentDistances.map(meters => meters / 1000)
+    : geometry.slice(1).map((point, i) => haversineKm(geometry[i], point));
+  const durations = hasAnnotations ? segmentDurations : distances;
+
+  const accumulate = (values: number[], total: number): number[] => {
+    const sum = values.reduce((a, b) => a + b, 0);
+    const scale = sum > 0 ? total / sum : 0;
+    const cumulative = [0];
+    values.forEach(value => cumulative.push(cumulative[cumulative.length - 1] + value * scale));
+    return cumulative;
+  };
+
+  return {
+    cumulativeDurations: accumulate(durations, totalDuration),
+    cumulativeDistances: accumulate(distances, totalDistanceKm)
+  };
+};
+
+// Index of the segment containing the value, and the fraction along it
+const locate = (cumulative: number[], value: number): { index: number; fraction: number } => {
+  if (cumulative.length < 2 || value <= 0) return { index: 0, fraction: 0 };
+  if (value >= cumulative[cumulative.length - 1]) return { index: cumulative.length - 2, fraction: 1 };
+
+  // Binary search for the last point at or before the value
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (cumulative[mid] <= value) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const span = cumulative[high] - cumulative[low];
+  return { index: low, fraction: span > 0 ? (value - cumulative[low]) / span : 0 };
+};
+
+const interpolatePoint = (geometry: [number, number][], index: number, fraction: number): [number, number] => {
+  const a = geometry[index];
+  const b = geometry[Math.min(index + 1, geometry.length - 1)];
+  return [a[0] + (b[0] - a[0]) * fraction, a[1] + (b[1] - a[1]) * fraction];
+};
+
+export interface RoutePosition {
+  point: [number, number];
+  distanceKm: number;
+  driveSeconds: number;
+  segmentIndex: number; // Geometry segment the position lies on
+}
+
+/**
+ * Where the vehicle is after the given driving time
+ */
+export const getPositionAtDriveSeconds = (
+  geometry: [number, number][],
+  timeline: RouteTimeline,
+  driveSeconds: number
+): RoutePosition => {
+  const { index, fraction } = locate(timeline.cumulativeDurations, driveSeconds);
+  const distances = timeline.cumulativeDistances;
+  const nextDistance = distances[Math.min(index + 1, distances.length - 1)];
+  return {
+    point: interpolatePoint(geometry, index, fraction),
+    distanceKm: distances[index] + (nextDistance - distances[index]) * fraction,
+    driveSeconds,
+    segmentIndex: index
+  };
+};
+
+/**
+ * Driving time needed to cover the given distance along the route
+ */
+export const getDriveSecondsAtDistance = (timeline: RouteTimeline, distanceKm: number): number => {
+  const { index, fraction } = locate(timeline.cumulativeDistances, distanceKm);
+  const durations = timeline.cumulativeDurations;
+  const nextDuration = durations[Math.min(index + 1, durations.length - 1)];
+  return durations[index] + (nextDuration - durations[index]) * fraction;
+};
+
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * The route position closest to a point, and how far off the route the point lies
+ */
+export const getNearestRoutePosition = (
+  geometry: [number, number][],
+  timeline: RouteTimeline,
+  point: [number, number]
+): RoutePosition & { offRouteKm: number } => {
+  // Flat projection around the point; fine over the few km that matter here
+  const lonScale = Math.cos(toRadians(point[0]));
+  const project = ([lat, lon]: [number, number]): [number, number] => [
+    (lon - point[1]) * lonScale * KM_PER_DEGREE,
+    (lat - point[0]) * KM_PER_DEGREE
+  ];
+
+  let best = { index: 0, fraction: 0, distance: Infinity };
+  for (let i = 0; i < Math.max(1, geometry.length - 1); i++) {
+    const [ax, ay] = project(geometry[i]);
+    const [bx, by] = project(geometry[Math.min(i + 1, geometry.length - 1)]);
+    const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+    const fraction = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * (bx - ax) + ay * (by - ay)) / lengthSquared)) : 0;
+    const distance = Math.hypot(ax + (bx - ax) * fraction, ay + (by - ay) * fraction);
+    if (distance < best.distance) {
+      best = { index: i, fraction, distance };
+    }
+  }
+
+  const along = (cumulative: number[]) =>
+    cumulative[best.index] + (cumulative[Math.min(best.index + 1, cumulative.length - 1)] - cumulative[best.index]) * best.fraction;
+  return {
+    point: interpolatePoint(geometry, best.index, best.fraction),
+    distanceKm: along(timeline.cumulativeDistances),
+    driveSeconds: along(timeline.cumulativeDurations),
+    segmentIndex: best.index,
+    offRouteKm: best.distance
+  };
+};
+
+/**
+ * Clock time (ms) when the trip has driven the given number of seconds, counting
+ * the stops and breaks at the waypoints passed before that point
+ */
+export const getClockTimeAtDriveSeconds = (waypoints: Waypoint[], driveSeconds: number): number => {
+  let reference = waypoints[0];
+  for (const waypoint of waypoints) {
+    if (waypoint.driveSeconds > driveSeconds) break;
+    reference = waypoint;
+  }
+  const resumesAt = (reference.departureTime ?? reference.arrivalTime).getTime();
+  return resumesAt + (driveSeconds - reference.driveSeconds) * 1000;
+};
@@ -0,0 +1,83 @@
+import type { RouteData, Waypoint, WeatherData } from './apiUtils';
+import { calculateDrivingScore } from './drivingScore';
+import { getDriveSecondsAtDistance } from './routeGeometry';
+
+/**
+ * How weather sample points are placed along the route:
+ * - time: every intervalMinutes of driving
+ * - distance: every intervalKm along the road
+ * - adaptive: every intervalMinutes, then extra points where the forecast changes quickly
+ */
+export type SamplingStrategy =
+  | { mode: 'time'; intervalMinutes: number }
+  | { mode: 'distance'; intervalKm: number }
+  | { mode: 'adaptive'; intervalMinutes: number };
+
+export const DEFAULT_SAMPLING: SamplingStrategy = { mode: 'time', intervalMinutes: 60 };
+
+// Adaptive refinement never places points closer than this (driving time)
+const MIN_ADAPTIVE_GAP_SECONDS = 15 * 60;
+export const MAX_ADAPTIVE_ROUNDS = 2;
+
+// Thresholds between neighbouring points that count as a quickly changing forecast
+const ADAPTIVE_SCORE_DIFF = 10;
+const ADAPTIVE_TEMPERATURE_DIFF = 3;
+
+/**
+ * Driving times (seconds from departure) of the regular sample points,
+ * excluding the start and the destination
+ */
+export const getSampleDriveTimes = (route: RouteData, strategy: SamplingStrategy): number[] => {
+  const times: number[] = [];
+
+  if (strategy.mode === 'distance') {
+    const intervalKm = Math.max(1, strategy.intervalKm);
+    for (let km = intervalKm; km < route.distance; km += intervalKm) {
+      times.push(getDriveSecondsAtDistance(route.timeline, km));
+    }
+    return times;
+  }
+
+  const intervalSeconds = Math.max(5, strategy.intervalMinutes) * 60;
+  for (let seconds = intervalSeconds; seconds < route.duration; seconds += intervalSeconds) {
+    times.push(seconds);
+  }
+  return times;
+};
+
+// Forecast changes quickly between two neighbouring points
+const changesQuickly = (a: WeatherData, b: WeatherData): boolean => {
+  const crossesFreezing = (a.temperature > 0) !== (b.temperature > 0);
+  return (
+    Math.abs(calculateDrivingScore(a) - calculateDrivingScore(b)) >= ADAPTIVE_SCORE_DIFF ||
+    Math.abs(a.temperature - b.temperature) >= ADAPTIVE_TEMPERATURE_DIFF ||
+    a.precipitationType !== b.precipitationType ||
+    (crossesFreezing && (a.precipitationIntensity > 0 || b.precipitationIntensity > 0))
+  );
+};
+
+/**
+ * Extra driving times to sample for adaptive mode: the midpoint between each pair of
+ * neighbouring waypoints whose forecasts differ a lot, as long as the gap allows it
+ */
+export const getAdaptiveRefinementTimes = (
+  waypoints: Waypoint[],
+  weatherData: Map<number, WeatherData | null>
+): number[] => {
+  const times: number[] = [];
+
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const current = weatherData.get(i);
+    const next = weatherData.get(i + 1);
+    if (!current || !next) continue;
+
+    const gap = waypoints[i + 1].driveSeconds - waypoints[i].driveSeconds;
+    if (gap < MIN_ADAPTIVE_GAP_SECONDS * 2) continue;
+
+    if (changesQuickly(current, next)) {
+      times.push(waypoints[i].driveSeconds + gap / 2);
+    }
+  }
+
+  return times;
+};
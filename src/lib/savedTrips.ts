@@ -0,0 +1,139 @@
+import type { Coordinates, PlaceInput, TripOptions, ViaStop } from './apiUtils';
+
+// A named route kept for reuse; the departure time is chosen each time it is loaded
+export interface SavedTrip {
+  id: string;
+  name: string;
+  from: PlaceInput;
+  to: PlaceInput;
+  vias: ViaStop[];
+  options: TripOptions;
+  savedAt: string; // ISO 8601
+}
+
+// A place whose coordinates are known, offered in the location inputs
+export interface SavedPlace {
+  name: string;
+  coordinates: Coordinates;
+}
+
+export interface SavedTripsState {
+  trips: SavedTrip[];
+  favourites: SavedPlace[];
+  recents: SavedPlace[]; // Most recent first
+}
+
+const STORAGE_KEY = 'driversweather.savedTrips';
+const MAX_RECENT_PLACES = 8;
+
+const EMPTY_STATE: SavedTripsState = { trips: [], favourites: [], recents: [] };
+
+const listeners = new Set<() => void>();
+let cachedState: SavedTripsState | null = null;
+
+const readState = (): SavedTripsState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_STATE;
+    const parsed = JSON.parse(raw) as Partial<SavedTripsState>;
+    return {
+      trips: parsed.trips ?? [],
+      favourites: parsed.favourites ?? [],
+      recents: parsed.recents ?? []
+    };
+  } catch (error) {
+    console.error('Failed to read saved trips:', error);
+    return EMPTY_STATE;
+  }
+};
+
+/**
+ * Current saved trips, favourites and recent places. The same object is returned
+ * until something changes, so it can back useSyncExternalStore.
+ */
+export const getSavedTripsState = (): SavedTripsState => {
+  if (!cachedState) {
+    cachedState = readState();
+  }
+  return cachedState;
+};
+
+const writeState = (update: (state: SavedTripsState) => SavedTripsState) => {
+  const next = update(getSavedTripsState());
+  cachedState = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Failed to store saved trips:', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Subscribe to changes, including ones made in other tabs
+ */
+export const subscribeSavedTrips = (listener: () => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cachedState = null;
+    listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+};
+
+const samePlace = (a: SavedPlace, b: SavedPlace): boolean => {
+  return a.name === b.name &&
+    a.coordinates.lat.toFixed(4) === b.coordinates.lat.toFixed(4) &&
+    a.coordinates.lon.toFixed(4) === b.coordinates.lon.toFixed(4);
+};
+
+export const saveTrip = (trip: Omit<SavedTrip, 'id' | 'savedAt'>): SavedTrip => {
+  const saved: SavedTrip = {
+    ...trip,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    savedAt: new Date().toISOString()
+  };
+  writeState(state => ({ ...state, trips: [saved, ...state.trips] }));
+  return saved;
+};
+
+export const renameTrip = (id: string, name: string) => {
+  writeState(state => ({
+    ...state,
+    trips: state.trips.map(trip => (trip.id === id ? { ...trip, name } : trip))
+  }));
+};
+
+export const deleteTrip = (id: string) => {
+  writeState(state => ({ ...state, trips: state.trips.filter(trip => trip.id !== id) }));
+};
+
+export const isFavouritePlace = (favourites: SavedPlace[], place: SavedPlace): boolean => {
+  return favourites.some(favourite => samePlace(favourite, place));
+};
+
+export const toggleFavouritePlace = (place: SavedPlace) => {
+  writeState(state => ({
+    ...state,
+    favourites: state.favourites.some(favourite => samePlace(favourite, place))
+      ? state.favourites.filter(favourite => !samePlace(favourite, place))
+      : [...state.favourites, place]
+  }));
+};
+
+/**
+ * Remember places that were just planned with, most recent first
+ */
+export const addRecentPlaces = (places: SavedPlace[]) => {
+  writeState(state => {
+    const recents = [...places, ...state.recents].filter(
+      (place, index, all) => all.findIndex(other => samePlace(other, place)) === index
+    );
+    return { ...state, recents: recents.slice(0, MAX_RECENT_PLACES) };
+  });
+};
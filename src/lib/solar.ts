@@ -0,0 +1,236 @@
+// Sun position and sun times, after the NOAA solar calculator
+// (https://gml.noaa.gov/grad/solcalc/calcdetails.html). Everything is computed in
+// UTC from the instant and the coordinates, so results do not depend on the
+// browser's time zone. Accurate to about a minute between ±72° latitude and
+// within a few minutes further north.
+
+export interface SolarPosition {
+  elevation: number; // Degrees above the horizon (negative below), without refraction
+  azimuth: number; // Degrees clockwise from north
+}
+
+export interface SunTimes {
+  solarNoon: Date;
+  // Null when the sun does not cross the respective elevation on this day
+  sunrise: Date | null;
+  sunset: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+  nauticalDawn: Date | null;
+  nauticalDusk: Date | null;
+  astronomicalDawn: Date | null;
+  astronomicalDusk: Date | null;
+  polarDay: boolean; // The sun stays above the horizon all day (midnight sun)
+  polarNight: boolean; // The sun stays below the horizon all day
+}
+
+// day: sun up; civil: bright twilight, driving without lights is possible early on;
+// nautical and astronomical: dark to the driver; night: sun more than 18° down
+export type DaylightPhase = 'day' | 'civil' | 'nautical' | 'astronomical' | 'night';
+
+// Sun elevations (degrees) that bound the phases. Sunrise and sunset use the upper
+// limb and standard refraction.
+const SUNRISE_ELEVATION = -0.833;
+const CIVIL_ELEVATION = -6;
+const NAUTICAL_ELEVATION = -12;
+const ASTRONOMICAL_ELEVATION = -18;
+
+const MS_PER_DAY = 86400000;
+const MS_PER_MINUTE = 60000;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+const toDegrees = (radians: number): number => radians * 180 / Math.PI;
+
+// Declination (degrees) and equation of time (minutes) at an instant
+const getSolarParameters = (time: number): { declination: number; equationOfTime: number } => {
+  const julianDay = time / MS_PER_DAY + 2440587.5;
+  const t = (julianDay - 2451545) / 36525; // Julian centuries since J2000
+
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const m = toRadians(meanAnomaly);
+  const center = Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * m) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * m) * 0.000289;
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const apparentLongitude = toRadians(meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega));
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = toRadians(meanObliquity + 0.00256 * Math.cos(omega));
+
+  const declination = toDegrees(Math.asin(Math.sin(obliquity) * Math.sin(apparentLongitude)));
+
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = toRadians(meanLongitude);
+  const equationOfTime = 4 * toDegrees(
+    y * Math.sin(2 * l0) -
+    2 * eccentricity * Math.sin(m) +
+    4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0) -
+    0.5 * y * y * Math.sin(4 * l0) -
+    1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+  );
+
+  return { declination, equationOfTime };
+};
+
+/**
+ * Where the sun is in the sky at a place and instant
+ */
+export const getSolarPosition = (time: Date, lat: number, lon: number): SolarPosition => {
+  const { declination, equationOfTime } = getSolarParameters(time.getTime());
+  const utcMinutes = (((time.getTime() % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY) / MS_PER_MINUTE;
+  const trueSolarMinutes = utcMinutes + equationOfTime + 4 * lon;
+  const hourAngle = toRadians(trueSolarMinutes / 4 - 180);
+
+  const latRad = toRadians(lat);
+  const decRad = toRadians(declination);
+  const cosZenith = Math.sin(latRad) * Math.sin(decRad) + Math.cos(latRad) * Math.cos(decRad) * Math.cos(hourAngle);
+  const elevation = 90 - toDegrees(Math.acos(Math.max(-1, Math.min(1, cosZenith))));
+
+  const azimuth = toDegrees(Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(latRad) - Math.tan(decRad) * Math.cos(latRad)
+  )) + 180;
+
+  return { elevation, azimuth: azimuth % 360 };
+};
+
+/**
+ * Daylight phase from the sun's elevation at a place and instant
+ */
+export const getDaylightPhase = (time: Date, lat: number, lon: number): DaylightPhase => {
+  const { elevation } = getSolarPosition(time, lat, lon);
+  if (elevation > SUNRISE_ELEVATION) return 'day';
+  if (elevation > CIVIL_ELEVATION) return 'civil';
+  if (elevation > NAUTICAL_ELEVATION) return 'nautical';
+  if (elevation > ASTRONOMICAL_ELEVATION) return 'astronomical';
+  return 'night';
+};
+
+// Solar noon (ms) of the local solar day that contains the instant
+const getSolarNoon = (time: number, lon: number): number => {
+  const solarDayStart = Math.floor((time + lon / 15 * 3600000) / MS_PER_DAY) * MS_PER_DAY;
+  let noon = solarDayStart + MS_PER_DAY / 2 - lon * 4 * MS_PER_MINUTE;
+  noon -= getSolarParameters(noon).equationOfTime * MS_PER_MINUTE;
+  return noon;
+};
+
+// Minutes between solar noon and the sun reaching the elevation, or +Infinity when it
+// stays above it all day and -Infinity when it never gets up to it
+const getHourAngleMinutes = (time: number, lat: number, elevation: number): number => {
+  const { declination } = getSolarParameters(time);
+  const latRad = toRadians(lat);
+  const decRad = toRadians(declination);
+  const cosHourAngle = (Math.sin(toRadians(elevation)) - Math.sin(latRad) * Math.sin(decRad)) /
+    (Math.cos(latRad) * Math.cos(decRad));
+  if (cosHourAngle < -1) return Infinity;
+  if (cosHourAngle > 1) return -Infinity;
+  return 4 * toDegrees(Math.acos(cosHourAngle));
+};
+
+// Morning and evening crossings of an elevation, refined once with the sun's
+// declination at the first estimate
+const getCrossings = (noon: number, lat: number, elevation: number): { rise: Date | null; set: Date | null; alwaysAbove: boolean } => {
+  const minutes = getHourAngleMinutes(noon, lat, elevation);
+  if (!Number.isFinite(minutes)) {
+    return { rise: null, set: null, alwaysAbove: minutes > 0 };
+  }
+  const refine = (estimate: number, sign: number): Date | null => {
+    const refined = getHourAngleMinutes(estimate, lat, elevation);
+    return Number.isFinite(refined) ? new Date(noon + sign * refined * MS_PER_MINUTE) : new Date(estimate);
+  };
+  return {
+    rise: refine(noon - minutes * MS_PER_MINUTE, -1),
+    set: refine(noon + minutes * MS_PER_MINUTE, 1),
+    alwaysAbove: false
+  };
+};
+
+/**
+ * Sun times of the local solar day that contains the instant. Above the polar
+ * circles sunrise and sunset are null during polar day and polar night, and the
+ * twilight times are null when the sun does not get that far below (or above) the
+ * horizon.
+ */
+export const getSunTimes = (time: Date, lat: number, lon: number): SunTimes => {
+  const noon = getSolarNoon(time.getTime(), lon);
+  const sun = getCrossings(noon, lat, SUNRISE_ELEVATION);
+  const civil = getCrossings(noon, lat, CIVIL_ELEVATION);
+  const nautical = getCrossings(noon, lat, NAUTICAL_ELEVATION);
+  const astronomical = getCrossings(noon, lat, ASTRONOMICAL_ELEVATION);
+
+  return {
+    solarNoon: new Date(noon),
+    sunrise: sun.rise,
+    sunset: sun.set,
+    civilDawn: civil.rise,
+    civilDusk: civil.set,
+    nauticalDawn: nautical.rise,
+    nauticalDusk: nautical.set,
+    astronomicalDawn: astronomical.rise,
+    astronomicalDusk: astronomical.set,
+    polarDay: sun.alwaysAbove,
+    polarNight: sun.rise === null && !sun.alwaysAbove
+  };
+};
+
+// A point along a trip: where the vehicle is at a given time
+export interface TrackPoint {
+  time: Date;
+  lat: number;
+  lon: number;
+}
+
+export interface DaylightChange {
+  type: 'dawn' | 'sunrise' | 'sunset' | 'dusk'; // dawn and dusk are the ends of civil twilight
+  time: Date;
+  lat: number;
+  lon: number;
+}
+
+const CHANGE_ELEVATIONS: { elevation: number; rising: DaylightChange['type']; setting: DaylightChange['type'] }[] = [
+  { elevation: SUNRISE_ELEVATION, rising: 'sunrise', setting: 'sunset' },
+  { elevation: CIVIL_ELEVATION, rising: 'dawn', setting: 'dusk' },
+];
+
+// Bisection steps when locating a change between two track points (an hour apart
+// at most, so this is well under a minute)
+const BISECTION_STEPS = 12;
+
+/**
+ * Sunrises, sunsets and the ends of civil twilight that a moving vehicle passes,
+ * in time order. Position is interpolated linearly between track points.
+ */
+export const findDaylightChanges = (track: TrackPoint[]): DaylightChange[] => {
+  const changes: DaylightChange[] = [];
+  const at = (a: TrackPoint, b: TrackPoint, fraction: number): TrackPoint => ({
+    time: new Date(a.time.getTime() + (b.time.getTime() - a.time.getTime()) * fraction),
+    lat: a.lat + (b.lat - a.lat) * fraction,
+    lon: a.lon + (b.lon - a.lon) * fraction
+  });
+  const elevationAt = (point: TrackPoint) => getSolarPosition(point.time, point.lat, point.lon).elevation;
+
+  for (let i = 0; i < track.length - 1; i++) {
+    const a = track[i];
+    const b = track[i + 1];
+    CHANGE_ELEVATIONS.forEach(({ elevation, rising, setting }) => {
+      const startsAbove = elevationAt(a) > elevation;
+      if (startsAbove === elevationAt(b) > elevation) return;
+
+      let low = 0;
+      let high = 1;
+      for (let step = 0; step < BISECTION_STEPS; step++) {
+        const middle = (low + high) / 2;
+        if ((elevationAt(at(a, b, middle)) > elevation) === startsAbove) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      const point = at(a, b, (low + high) / 2);
+      changes.push({ type: startsAbove ? setting : rising, ...point });
+    });
+  }
+
+  return changes.sort((x, y) => x.time.getTime() - y.time.getTime());
+};
@@ -0,0 +1,51 @@
+// Time zones along a trip. Times are kept as instants (Date / ms since epoch) and
+// are only turned into wall-clock time for display: in the trip's reference zone,
+// which is the zone the departure time is entered in (the device's), and in the
+// local zone of the country a waypoint is in.
+
+import type { CountryCode } from './countries';
+
+export const COUNTRY_TIME_ZONES: Record<CountryCode, string> = {
+  SE: 'Europe/Stockholm',
+  NO: 'Europe/Oslo',
+  FI: 'Europe/Helsinki',
+  DK: 'Europe/Copenhagen',
+  DE: 'Europe/Berlin',
+};
+
+export const getReferenceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Minutes a zone is ahead of UTC at an instant (daylight saving included)
+export const getUtcOffsetMinutes = (time: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(time);
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'));
+  return Math.round((wallClock - Math.floor(time.getTime() / 60000) * 60000) / 60000);
+};
+
+export const formatTimeInZone = (time: Date, timeZone: string): string => {
+  return time.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone });
+};
+
+/**
+ * Wall-clock time in the country a point is in, or null when the country is
+ * unknown or its clocks show the same time as the reference zone at that instant
+ */
+export const getLocalTimeLabel = (
+  time: Date,
+  country: CountryCode | null,
+  referenceZone: string = getReferenceTimeZone()
+): string | null => {
+  if (!country) return null;
+  const localZone = COUNTRY_TIME_ZONES[country];
+  if (getUtcOffsetMinutes(time, localZone) === getUtcOffsetMinutes(time, referenceZone)) return null;
+  return formatTimeInZone(time, localZone);
+};
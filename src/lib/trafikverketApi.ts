@@ -0,0 +1,71 @@
+// Shared access to Trafikverket's open traffic information API, used for road
+// weather stations and traffic situations.
+
+const DEFAULT_API_URL = 'https://api.trafikinfo.trafikverket.se/v2/data.json';
+
+export const TRAFIKVERKET_ATTRIBUTION = {
+  text: 'Trafikverket',
+  url: 'https://api.trafikinfo.trafikverket.se/'
+};
+
+export interface TrafikverketConfig {
+  apiKey: string;
+  apiUrl: string;
+}
+
+// VITE_TRAFIKVERKET_API_KEY enables the API; VITE_TRAFIKVERKET_API_URL points it at
+// another server with the same protocol, e.g. a local fixture server
+const apiKey: string = import.meta.env.VITE_TRAFIKVERKET_API_KEY ?? '';
+const apiUrl: string = import.meta.env.VITE_TRAFIKVERKET_API_URL ?? '';
+
+/**
+ * API settings from the environment, or null when neither a key nor a custom URL is set
+ */
+export const getTrafikverketConfig = (): TrafikverketConfig | null => {
+  return apiKey || apiUrl ? { apiKey, apiUrl: apiUrl || DEFAULT_API_URL } : null;
+};
+
+interface TrafikverketResponse {
+  RESPONSE: {
+    RESULT: (Record<string, unknown[] | undefined> & { ERROR?: { MESSAGE: string } })[];
+  };
+}
+
+/**
+ * Run one <QUERY> and return the objects of its type
+ */
+export const queryTrafikverket = async <T>(
+  config: TrafikverketConfig,
+  objectType: string,
+  query: string
+): Promise<T[]> => {
+  const response = await fetch(config.apiUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/xml' },
+    body: `<REQUEST><LOGIN authenticationkey="${config.apiKey}" />${query}</REQUEST>`
+  });
+
+  if (!response.ok) {
+    throw new Error(`Trafikverket ${objectType} request failed`);
+  }
+
+  const data: TrafikverketResponse = await response.json();
+  const result = data.RESPONSE.RESULT[0];
+  if (result?.ERROR) {
+    throw new Error(`Trafikverket ${objectType} request failed: ${result.ERROR.MESSAGE}`);
+  }
+  return (result?.[objectType] ?? []) as T[];
+};
+
+/**
+ * [lat, lon] points of a WKT POINT or LINESTRING ("POINT (lon lat)"), as used in
+ * the WGS84 geometry fields
+ */
+export const parseWktPoints = (wkt: string | undefined): [number, number][] => {
+  const body = wkt?.match(/\(([^()]*)\)/)?.[1];
+  if (!body) return [];
+  return body.split(',')
+    .map(pair => pair.trim().split(/\s+/).map(Number))
+    .filter(pair => pair.length >= 2 && Number.isFinite(pair[0]) && Number.isFinite(pair[1]))
+    .map(([lon, lat]) => [lat, lon] as [number, number]);
+};
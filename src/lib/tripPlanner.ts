@@ -0,0 +1,157 @@
+import {
+  calculateWaypoints,
+  getWeather,
+  type RouteData,
+  type Waypoint,
+  type WaypointOptions,
+  type WeatherData
+} from './apiUtils';
+import { calculateTripAverageScore, getMinTripScore } from './drivingScore';
+import { applyAltitudeCorrection, getElevationProfile, type ElevationPoint } from './elevation';
+import { getEnsembleSpread, type EnsembleSpread } from './ensemble';
+import { getMarineConditions } from './ferries';
+import { findGlareSegments, type GlareSegment } from './glare';
+import { findRouteIncidents, type RouteIncident } from './incidents';
+import { attachRoadWeather } from './roadWeather';
+import { getAdaptiveRefinementTimes, MAX_ADAPTIVE_ROUNDS } from './sampling';
+import { findRouteWarnings, type RouteWarning } from './weatherWarnings';
+
+// One candidate route together with its waypoints and forecasts
+export interface RoutePlan {
+  route: RouteData;
+  waypoints: Waypoint[];
+  weatherData: Map<number, WeatherData | null>;
+  averageScore: number | null;
+  minScore: number | null;
+  ensembleData?: Map<number, EnsembleSpread | null>; // Only when comparing models
+  warnings: RouteWarning[]; // Official warnings the trip passes through
+  incidents: RouteIncident[]; // Traffic incidents and closures on the route
+  elevationProfile: ElevationPoint[]; // Empty when heights could not be looked up
+  glare: GlareSegment[]; // Stretches with low sun ahead under a clear sky
+}
+
+/**
+ * Fetch weather for every waypoint at its arrival time (optionally shifted by offsetMs).
+ * Waypoints on a ferry crossing also get the sea state, and temperatures are
+ * corrected for the height of the road. Failed lookups are stored as null so the
+ * rest of the trip still renders.
+ */
+export const fetchWeatherForWaypoints = async (
+  waypoints: Waypoint[],
+  offsetMs: number = 0,
+  onWaypointDone?: () => void
+): Promise<Map<number, WeatherData | null>> => {
+  const results = await Promise.all(waypoints.map(async (waypoint, index) => {
+    try {
+      const targetTime = new Date(waypoint.arrivalTime.getTime() + offsetMs);
+      const weather = await getWeather(waypoint.lat, waypoint.lon, targetTime, waypoint.country);
+      if (waypoint.ferryIndex === undefined) return weather;
+      // Without wave data the crossing is still judged by wind
+      const marine = await getMarineConditions(waypoint.lat, waypoint.lon, targetTime).catch(err => {
+        console.error(`Failed to fetch sea state for waypoint ${index}:`, err);
+        return { waveHeight: null, wavePeriod: null };
+      });
+      return { ...weather, marine };
+    } catch (err) {
+      console.error(`Failed to fetch weather for waypoint ${index}:`, err);
+      return null;
+    } finally {
+      onWaypointDone?.();
+    }
+  }));
+
+  const weatherData = new Map<number, WeatherData | null>();
+  results.forEach((weather, index) => weatherData.set(index, weather));
+  return applyAltitudeCorrection(waypoints, weatherData);
+};
+
+/**
+ * Fetch the spread between forecast models for every waypoint. Waypoints beyond
+ * the models' range or with failed requests are stored as null.
+ */
+export const fetchEnsembleForWaypoints = async (
+  waypoints: Waypoint[]
+): Promise<Map<number, EnsembleSpread | null>> => {
+  const results = await Promise.all(waypoints.map(async (waypoint, index) => {
+    try {
+      return await getEnsembleSpread(waypoint.lat, waypoint.lon, waypoint.arrivalTime);
+    } catch (err) {
+      console.error(`Failed to fetch model spread for waypoint ${index}:`, err);
+      return null;
+    }
+  }));
+
+  const ensembleData = new Map<number, EnsembleSpread | null>();
+  results.forEach((spread, index) => ensembleData.set(index, spread));
+  return ensembleData;
+};
+
+/**
+ * Calculate waypoints for a route and fetch their weather. In adaptive sampling mode,
+ * points are added where the forecast changes quickly; forecasts are cached per
+ * location, so only the new points cost extra requests.
+ */
+export const planRouteWeather = async (
+  route: RouteData,
+  departureTime: Date,
+  fromName: string,
+  toName: string,
+  options: WaypointOptions,
+  onProgress?: (current: number, total: number) => void
+): Promise<RoutePlan> => {
+  const fetchWithProgress = (waypointList: Waypoint[]) => {
+    let current = 0;
+    onProgress?.(0, waypointList.length);
+    return fetchWeatherForWaypoints(waypointList, 0, () => {
+      current++;
+      onProgress?.(current, waypointList.length);
+    });
+  };
+
+  let waypoints = await calculateWaypoints(route, departureTime, fromName, toName, options);
+  let weatherData = await fetchWithProgress(waypoints);
+
+  if (options.sampling?.mode === 'adaptive') {
+    const extraSampleTimes: number[] = [];
+    for (let round = 0; round < MAX_ADAPTIVE_ROUNDS; round++) {
+      const refinementTimes = getAdaptiveRefinementTimes(waypoints, weatherData);
+      if (refinementTimes.length === 0) break;
+      extraSampleTimes.push(...refinementTimes);
+      waypoints = await calculateWaypoints(route, departureTime, fromName, toName, {
+        ...options,
+        extraSampleTimes
+      });
+      weatherData = await fetchWithProgress(waypoints);
+    }
+  }
+
+  // Station observations only matter for the first hours, so add them to the final waypoints
+  weatherData = await attachRoadWeather(waypoints, weatherData);
+
+  const ensembleData = options.compareModels ? await fetchEnsembleForWaypoints(waypoints) : undefined;
+  const warnings = await findRouteWarnings(route, waypoints).catch(err => {
+    console.error('Failed to check official warnings:', err);
+    return [];
+  });
+  const incidents = await findRouteIncidents(route, waypoints).catch(err => {
+    console.error('Failed to check traffic incidents:', err);
+    return [];
+  });
+  const elevationProfile = await getElevationProfile(route).catch(err => {
+    console.error('Failed to build the elevation profile:', err);
+    return [];
+  });
+
+  return {
+    route,
+    waypoints,
+    weatherData,
+    averageScore: calculateTripAverageScore(weatherData),
+    minScore: getMinTripScore(weatherData),
+    ensembleData,
+    warnings,
+    incidents,
+    elevationProfile,
+    glare: findGlareSegments(route, waypoints, weatherData)
+  };
+};
@@ -0,0 +1,115 @@
+import { DEFAULT_TRIP_OPTIONS, MIN_BREAK_EVERY_HOURS, MIN_BREAK_MINUTES, type Coordinates, type PlaceInput, type TripOptions, type ViaStop } from './apiUtils';
+import { DEFAULT_SAMPLING, type SamplingStrategy } from './sampling';
+
+// Everything needed to plan a trip, as entered in the route form
+export interface TripRequest {
+  from: PlaceInput;
+  to: PlaceInput;
+  departureTime: Date;
+  vias: ViaStop[];
+  options: TripOptions;
+}
+
+/*
+ * Query parameter layout:
+ *   from, to          location names
+ *   fromAt, toAt      "<lat>,<lon>" of a picked place (omitted for free text)
+ *   depart            departure time (ISO 8601, UTC)
+ *   via, dwell, viaAt repeated, one set per stop in visiting order (viaAt empty for free text)
+ *   break             "<hours>h<minutes>", e.g. "2h15" = 15 min after every 2 h
+ *   sample            "time:60", "distance:25" or "adaptive:60"
+ *   models            "1" to compare forecast models
+ */
+
+const encodeSampling = (sampling: SamplingStrategy): string => {
+  return sampling.mode === 'distance'
+    ? `distance:${sampling.intervalKm}`
+    : `${sampling.mode}:${sampling.intervalMinutes}`;
+};
+
+const decodeSampling = (value: string | null): SamplingStrategy => {
+  if (!value) return DEFAULT_SAMPLING;
+  const [mode, rawInterval] = value.split(':');
+  const interval = Number(rawInterval);
+  if (!Number.isFinite(interval) || interval <= 0) return DEFAULT_SAMPLING;
+  if (mode === 'distance') return { mode, intervalKm: interval };
+  if (mode === 'time' || mode === 'adaptive') return { mode, intervalMinutes: interval };
+  return DEFAULT_SAMPLING;
+};
+
+const encodeCoordinates = (coordinates: Coordinates | null): string => {
+  return coordinates ? `${coordinates.lat.toFixed(5)},${coordinates.lon.toFixed(5)}` : '';
+};
+
+const decodePlace = (name: string, value: string | null | undefined): PlaceInput => {
+  const [lat, lon] = (value ?? '').split(',').map(part => (part.trim() === '' ? NaN : Number(part)));
+  const valid = Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+  return { name, coordinates: valid ? { lat, lon, displayName: name } : null };
+};
+
+/**
+ * Encode a trip as URL query parameters
+ */
+export const tripToSearchParams = (trip: TripRequest): URLSearchParams => {
+  const params = new URLSearchParams();
+  params.set('from', trip.from.name);
+  if (trip.from.coordinates) params.set('fromAt', encodeCoordinates(trip.from.coordinates));
+  params.set('to', trip.to.name);
+  if (trip.to.coordinates) params.set('toAt', encodeCoordinates(trip.to.coordinates));
+  params.set('depart', trip.departureTime.toISOString());
+  trip.vias.forEach(via => {
+    params.append('via', via.name);
+    params.append('dwell', String(via.dwellMinutes));
+    params.append('viaAt', encodeCoordinates(via.coordinates));
+  });
+  if (trip.options.breakRule) {
+    params.set('break', `${trip.options.breakRule.everyHours}h${trip.options.breakRule.durationMinutes}`);
+  }
+  if (encodeSampling(trip.options.sampling) !== encodeSampling(DEFAULT_SAMPLING)) {
+    params.set('sample', encodeSampling(trip.options.sampling));
+  }
+  if (trip.options.compareModels) {
+    params.set('models', '1');
+  }
+  return params;
+};
+
+/**
+ * Decode a trip from URL query parameters; null when from, to or the departure
+ * time is missing or invalid
+ */
+export const tripFromSearchParams = (params: URLSearchParams): TripRequest | null => {
+  const from = params.get('from');
+  const to = params.get('to');
+  const departureTime = new Date(params.get('depart') ?? '');
+  if (!from || !to || isNaN(departureTime.getTime())) return null;
+
+  const dwells = params.getAll('dwell');
+  const viaPositions = params.getAll('viaAt');
+  const vias: ViaStop[] = params.getAll('via').map((name, index) => ({
+    ...decodePlace(name, viaPositions[index]),
+    dwellMinutes: Math.max(0, Number(dwells[index]) || 0)
+  }));
+
+  let breakRule = DEFAULT_TRIP_OPTIONS.breakRule;
+  const breakMatch = params.get('break')?.match(/^(\d+(?:\.\d+)?)h(\d+)$/);
+  if (breakMatch) {
+    // Same bounds as the form, so a link cannot plan breaks the form would not allow
+    breakRule = {
+      everyHours: Math.max(MIN_BREAK_EVERY_HOURS, Number(breakMatch[1])),
+      durationMinutes: Math.max(MIN_BREAK_MINUTES, Number(breakMatch[2]))
+    };
+  }
+
+  return {
+    from: decodePlace(from, params.get('fromAt')),
+    to: decodePlace(to, params.get('toAt')),
+    departureTime,
+    vias,
+    options: {
+      breakRule,
+      sampling: decodeSampling(params.get('sample')),
+      compareModels: params.get('models') === '1'
+    }
+  };
+};
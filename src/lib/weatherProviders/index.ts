@@ -0,0 +1,97 @@
+import { getCountryAt, type CountryCode } from '../countries';
+import { metNorwayProvider } from './metNorway';
+import { openMeteoProvider } from './openMeteo';
+import { smhiProvider } from './smhi';
+import type { WeatherProvider } from './types';
+
+export type { WeatherProvider } from './types';
+
+const STORAGE_KEY = 'driversweather.disabledProviders';
+
+const providers: WeatherProvider[] = [metNorwayProvider, smhiProvider, openMeteoProvider];
+
+// Used wherever no enabled provider covers a point, so it cannot be turned off
+export const FALLBACK_PROVIDER_ID = openMeteoProvider.id;
+
+const listeners = new Set<() => void>();
+let disabledIds: string[] | null = null;
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Add a provider to the registry (replacing one with the same id)
+ */
+export const registerWeatherProvider = (provider: WeatherProvider) => {
+  const index = providers.findIndex(existing => existing.id === provider.id);
+  if (index === -1) {
+    providers.push(provider);
+  } else {
+    providers[index] = provider;
+  }
+  notify();
+};
+
+/**
+ * All registered providers, highest priority first
+ */
+export const getWeatherProviders = (): WeatherProvider[] => {
+  return [...providers].sort((a, b) => b.priority - a.priority);
+};
+
+/**
+ * Ids of the providers turned off in settings. The same array is returned until
+ * the settings change, so it can back useSyncExternalStore.
+ */
+export const getDisabledProviderIds = (): string[] => {
+  if (!disabledIds) {
+    try {
+      disabledIds = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    } catch (error) {
+      console.error('Failed to read weather provider settings:', error);
+      disabledIds = [];
+    }
+  }
+  return disabledIds;
+};
+
+export const setProviderEnabled = (id: string, enabled: boolean) => {
+  const others = getDisabledProviderIds().filter(disabledId => disabledId !== id);
+  disabledIds = enabled ? others : [...others, id];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(disabledIds));
+  } catch (error) {
+    console.error('Failed to store weather provider settings:', error);
+  }
+  notify();
+};
+
+export const subscribeProviderSettings = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Enabled providers that cover the country and reach the target time, in the order
+ * they should be tried, ending with the fallback provider so every point still
+ * gets a forecast. The country is looked up from the coordinates unless given.
+ */
+export const selectWeatherProviders = (
+  lat: number,
+  lon: number,
+  targetTime: Date,
+  country: CountryCode | null = getCountryAt(lat, lon)
+): WeatherProvider[] => {
+  const hoursAhead = (targetTime.getTime() - Date.now()) / 3600000;
+  const disabled = getDisabledProviderIds().filter(id => id !== FALLBACK_PROVIDER_ID);
+  const selected = getWeatherProviders().filter(provider =>
+    !disabled.includes(provider.id) &&
+    (provider.coverage === 'worldwide' || (country !== null && provider.coverage.includes(country))) &&
+    hoursAhead <= provider.maxHorizonHours
+  );
+  if (!selected.includes(openMeteoProvider)) {
+    selected.push(openMeteoProvider);
+  }
+  return selected;
+};
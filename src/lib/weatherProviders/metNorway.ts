@@ -0,0 +1,123 @@
+import type { ForecastStep } from '../forecastCache';
+import type { WeatherProvider } from './types';
+
+// Subset of the MET Norway Locationforecast 2.0 (compact) response that we read
+interface MetPeriod {
+  summary: { symbol_code: string };
+  details?: { precipitation_amount?: number };
+}
+
+interface MetTimeStep {
+  time: string;
+  data: {
+    instant: {
+      details: {
+        air_temperature?: number;
+        wind_speed?: number;
+      };
+    };
+    next_1_hours?: MetPeriod;
+    next_6_hours?: MetPeriod;
+  };
+}
+
+interface MetResponse {
+  geometry?: { coordinates: number[] }; // [lon, lat, altitude the forecast is adjusted to]
+  properties: {
+    timeseries: MetTimeStep[];
+  };
+}
+
+// MET symbol codes (without the _day/_night/_polartwilight suffix) to SMHI Wsymb2 (1-27)
+const SYMBOLS: Record<string, number> = {
+  clearsky: 1,
+  fair: 2,
+  partlycloudy: 3,
+  cloudy: 6,
+  fog: 7,
+  lightrainshowers: 8,
+  rainshowers: 9,
+  heavyrainshowers: 10,
+  lightsleetshowers: 12,
+  sleetshowers: 13,
+  heavysleetshowers: 14,
+  lightsnowshowers: 15,
+  snowshowers: 16,
+  heavysnowshowers: 17,
+  lightrain: 18,
+  rain: 19,
+  heavyrain: 20,
+  lightsleet: 22,
+  sleet: 23,
+  heavysleet: 24,
+  lightsnow: 25,
+  snow: 26,
+  heavysnow: 27,
+};
+
+// Map a MET symbol_code to our weather symbol; thunder variants map to thunderstorm (showers) or thunder
+export const mapMetSymbol = (symbolCode: string): number => {
+  const base = symbolCode.split('_')[0];
+  if (base.endsWith('andthunder')) {
+    return base.includes('showers') ? 11 : 21;
+  }
+  return SYMBOLS[base] ?? 1;
+};
+
+// SMHI-compatible precipitation category from a MET symbol_code
+// SMHI pcat: 0=None, 1=Snow, 2=Sleet, 3=Rain
+export const mapMetPrecipType = (symbolCode: string): number => {
+  if (symbolCode.includes('snow')) return 1;
+  if (symbolCode.includes('sleet')) return 2;
+  if (symbolCode.includes('rain')) return 3;
+  return 0;
+};
+
+// MET Norway Locationforecast for Norway (MEPS high-resolution model)
+export const metNorwayProvider: WeatherProvider<MetResponse> = {
+  id: 'met-norway',
+  name: 'MET Norway',
+  attribution: {
+    text: 'MET Norway',
+    url: 'https://api.met.no/'
+  },
+  priority: 110,
+  maxHorizonHours: 216,
+
+  coverage: ['NO'],
+
+  fetchForecast: async (lat, lon) => {
+    // MET asks for at most 4 decimals so responses can be cached
+    const url = `https://api.met.no/weatherapi/locationforecast/2.0/compact?lat=${lat.toFixed(4)}&lon=${lon.toFixed(4)}`;
+    
+    const response = await fetch(url);
+    
+    if (!response.ok) {
+      throw new Error('MET Norway weather request failed');
+    }
+    
+    return response.json();
+  },
+
+  normalize: (data, lat, lon) => {
+    const steps: ForecastStep[] = data.properties.timeseries.map(step => {
+      const instant = step.data.instant.details;
+      // Hourly steps come with next_1_hours; the later 6-hourly ones only with next_6_hours
+      const hourly = step.data.next_1_hours;
+      const period = hourly ?? step.data.next_6_hours;
+      const symbolCode = period?.summary.symbol_code ?? 'cloudy';
+      const amount = period?.details?.precipitation_amount ?? 0;
+      return {
+        time: new Date(step.time).getTime(),
+        temperature: instant.air_temperature ?? 0,
+        precipitationType: amount > 0 ? mapMetPrecipType(symbolCode) : 0,
+        precipitationIntensity: hourly ? amount : amount / 6, // mm/h
+        windSpeed: instant.wind_speed ?? 0,
+        visibility: symbolCode.startsWith('fog') ? 1 : 50, // Compact forecast has no visibility; fog means poor
+        weatherSymbol: mapMetSymbol(symbolCode)
+      };
+    });
+    
+    return { source: 'met-norway', lat, lon, steps, elevation: data.geometry?.coordinates[2] };
+  }
+};
@@ -0,0 +1,144 @@
+import type { ForecastDay, ForecastStep } from '../forecastCache';
+import type { WeatherProvider } from './types';
+
+// Subset of the Open-Meteo forecast response that we read. Times are requested as
+// UNIX seconds (UTC); daily values still follow the location's local days.
+interface OpenMeteoResponse {
+  elevation?: number; // Height the forecast was downscaled to
+  utc_offset_seconds: number; // Offset of the location's local time, for the daily dates
+  hourly: {
+    time: number[];
+    temperature_2m: number[];
+    precipitation: number[];
+    weather_code: number[];
+    wind_speed_10m: number[];
+    visibility: number[];
+  };
+  daily?: {
+    time: number[]; // Local midnight, shifted by utc_offset_seconds
+    sunrise: (number | null)[];
+    sunset: (number | null)[];
+  };
+}
+
+// Map Open-Meteo WMO weather codes to SMHI-compatible Wsymb2 format (1-27)
+export const mapWeatherCodeToSymbol = (code: number): number => {
+  // Clear sky
+  if (code === 0) return 1;
+  // Partly cloudy
+  if (code === 1) return 2;
+  if (code === 2) return 3;
+  // Overcast
+  if (code === 3) return 6;
+  // Fog
+  if (code >= 45 && code <= 48) return 7;
+  // Drizzle (51-55) - light rain
+  if (code >= 51 && code <= 53) return 18;
+  if (code >= 54 && code <= 55) return 19;
+  // Freezing drizzle (56-57)
+  if (code >= 56 && code <= 57) return 22;
+  // Rain (61-65)
+  if (code === 61) return 18;
+  if (code === 63) return 19;
+  if (code === 65) return 20;
+  // Freezing rain (66-67)
+  if (code >= 66 && code <= 67) return 22;
+  // Snow (71-77)
+  if (code === 71) return 25;
+  if (code === 73) return 26;
+  if (code === 75) return 27;
+  if (code === 77) return 25; // Snow grains
+  // Rain showers (80-82)
+  if (code === 80) return 8;
+  if (code === 81) return 9;
+  if (code === 82) return 10;
+  // Snow showers (85-86)
+  if (code === 85) return 15;
+  if (code === 86) return 17;
+  // Thunderstorm (95-99)
+  if (code >= 95 && code <= 99) return 21;
+  return 1;
+};
+
+// Map Open-Meteo WMO weather codes to SMHI-compatible precipitation category
+// SMHI pcat: 0=None, 1=Snow, 2=Sleet, 3=Rain, 4=Drizzle, 5=Freezing rain, 6=Freezing drizzle
+export const mapWeatherCodeToPrecipType = (code: number): number => {
+  // No precipitation
+  if (code <= 3) return 0;
+  // Fog - no precipitation
+  if (code >= 45 && code <= 48) return 0;
+  // Drizzle (51-55)
+  if (code >= 51 && code <= 55) return 4;
+  // Freezing drizzle (56-57)
+  if (code >= 56 && code <= 57) return 6;
+  // Rain (61-65)
+  if (code >= 61 && code <= 65) return 3;
+  // Freezing rain (66-67)
+  if (code >= 66 && code <= 67) return 5;
+  // Snow (71-77)
+  if (code >= 71 && code <= 77) return 1;
+  // Rain showers (80-82)
+  if (code >= 80 && code <= 82) return 3;
+  // Snow showers (85-86)
+  if (code >= 85 && code <= 86) return 1;
+  // Thunderstorm (95-99) - assume rain
+  if (code >= 95 && code <= 99) return 3;
+  return 0;
+};
+
+// Open-Meteo model blend (worldwide), also the fallback for every other provider
+export const openMeteoProvider: WeatherProvider<OpenMeteoResponse> = {
+  id: 'open-meteo',
+  name: 'Open-Meteo',
+  attribution: {
+    text: 'Open-Meteo',
+    url: 'https://open-meteo.com/'
+  },
+  priority: 0,
+  maxHorizonHours: 168,
+
+  coverage: 'worldwide',
+
+  fetchForecast: async (lat, lon) => {
+    const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&hourly=temperature_2m,precipitation,weather_code,wind_speed_10m,visibility&daily=sunrise,sunset&timezone=auto&timeformat=unixtime`;
+    
+    const response = await fetch(url);
+    
+    if (!response.ok) {
+      throw new Error('Weather data request failed');
+    }
+    
+    return response.json();
+  },
+
+  normalize: (data, lat, lon) => {
+    const steps: ForecastStep[] = data.hourly.time.map((time, i) => {
+      // Map Open-Meteo weather codes to our weather symbol format and
+      // SMHI-compatible precipitation types
+      const weatherCode = data.hourly.weather_code[i] || 0;
+      return {
+        time: time * 1000,
+        temperature: data.hourly.temperature_2m[i] || 0,
+        precipitationType: mapWeatherCodeToPrecipType(weatherCode),
+        precipitationIntensity: data.hourly.precipitation[i] || 0,
+        windSpeed: data.hourly.wind_speed_10m[i] || 0,
+        visibility: (data.hourly.visibility[i] || 50000) / 1000, // Convert to km
+        weatherSymbol: mapWeatherCodeToSymbol(weatherCode)
+      };
+    });
+    
+    const daily: ForecastDay[] | undefined = data.daily && data.daily.time
+      ? data.daily.time.map((time, i) => {
+          const sunrise = data.daily?.sunrise[i];
+          const sunset = data.daily?.sunset[i];
+          return {
+            date: new Date((time + data.utc_offset_seconds) * 1000).toISOString().split('T')[0],
+            sunrise: sunrise ? new Date(sunrise * 1000) : null,
+            sunset: sunset ? new Date(sunset * 1000) : null
+          };
+        })
+      : undefined;
+    
+    return { source: 'open-meteo', lat, lon, steps, daily, utcOffset: data.utc_offset_seconds, elevation: data.elevation };
+  }
+};
@@ -0,0 +1,74 @@
+import type { ForecastStep } from '../forecastCache';
+import type { WeatherProvider } from './types';
+
+// Subset of the SMHI point forecast response that we read
+interface SmhiParameter {
+  name: string;
+  values: number[];
+}
+
+interface SmhiTimeStep {
+  validTime: string;
+  parameters: SmhiParameter[];
+}
+
+interface SmhiResponse {
+  timeSeries: SmhiTimeStep[];
+}
+
+// SMHI point forecasts for Sweden (pmp3g)
+export const smhiProvider: WeatherProvider<SmhiResponse> = {
+  id: 'smhi',
+  name: 'SMHI',
+  attribution: {
+    text: 'SMHI',
+    url: 'https://www.smhi.se/'
+  },
+  priority: 100,
+  maxHorizonHours: 240,
+
+  coverage: ['SE'],
+
+  fetchForecast: async (lat, lon) => {
+    // SMHI requires coordinates with max 6 decimals
+    const roundedLat = Math.round(lat * 1000000) / 1000000;
+    const roundedLon = Math.round(lon * 1000000) / 1000000;
+    
+    const url = `https://opendata-download-metfcst.smhi.se/api/category/pmp3g/version/2/geotype/point/lon/${roundedLon}/lat/${roundedLat}/data.json`;
+    
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'WeatherWay/1.0'
+      }
+    });
+    
+    if (!response.ok) {
+      throw new Error('SMHI weather request failed');
+    }
+    
+    return response.json();
+  },
+
+  normalize: (data, lat, lon) => {
+    const steps: ForecastStep[] = data.timeSeries.map(forecast => {
+      // Helper to get parameter value
+      const getParam = (name: string): number => {
+        const param = forecast.parameters.find(p => p.name === name);
+        return param ? param.values[0] : 0;
+      };
+      
+      // SMHI Wsymb2 codes 1-27 are directly compatible with our weatherUtils
+      return {
+        time: new Date(forecast.validTime).getTime(),
+        temperature: getParam('t'), // Temperature in Celsius
+        precipitationType: getParam('pcat'), // SMHI pcat: 0=None, 1=Snow, 2=Sleet, 3=Rain, etc.
+        precipitationIntensity: getParam('pmean'), // Mean precipitation intensity mm/h
+        windSpeed: getParam('ws'), // Wind speed in m/s
+        visibility: getParam('vis') || 50, // Visibility in km
+        weatherSymbol: getParam('Wsymb2') // Weather symbol (1-27), weatherUtils handles it directly
+      };
+    });
+    
+    return { source: 'smhi', lat, lon, steps };
+  }
+};
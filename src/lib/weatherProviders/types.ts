@@ -0,0 +1,20 @@
+import type { CountryCode } from '../countries';
+import type { ForecastSeries } from '../forecastCache';
+
+/**
+ * A source of point forecasts. Providers fetch their own response format and
+ * normalize it to a ForecastSeries in our WeatherData units and symbol scale.
+ */
+export interface WeatherProvider<TResponse = unknown> {
+  id: string;
+  name: string;
+  attribution: {
+    text: string;
+    url: string;
+  };
+  priority: number; // Higher is tried first where several providers cover a point
+  maxHorizonHours: number; // How far ahead the forecast reaches
+  coverage: CountryCode[] | 'worldwide'; // Countries the provider is used for
+  fetchForecast(lat: number, lon: number): Promise<TResponse>;
+  normalize(response: TResponse, lat: number, lon: number): ForecastSeries;
+}
@@ -1,4 +1,5 @@
 import { Sun, Moon, Cloud, CloudSun, CloudMoon, CloudFog, CloudRain, CloudLightning, CloudSnow, Snowflake, Thermometer, type LucideIcon } from 'lucide-react';
+import { getDaylightPhase } from './solar';
 
 // SMHI Weather Symbol mapping to Lucide icons
 export const getWeatherIconComponent = (symbol: number, isNight: boolean = false): LucideIcon => {
@@ -57,11 +58,9 @@ export const getWeatherIcon = (symbol: number, isNight: boolean = false): string
   return icons[symbol] || '?';
 };
 
-// Helper to determine if a given time is during night hours
-export const isNightTime = (time: Date, sunrise?: Date, sunset?: Date): boolean => {
-  if (!sunrise || !sunset) return false;
-  
-  return time.getTime() < sunrise.getTime() || time.getTime() > sunset.getTime();
+// Helper to determine if the sun is down at a place and time (twilight counts as night)
+export const isNightTime = (time: Date, lat: number, lon: number): boolean => {
+  return getDaylightPhase(time, lat, lon) !== 'day';
 };
 
 export const getWeatherDescription = (symbol: number): string => {
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { parseCapAlert } from './cap';
+import { sampleWarningClient } from './feeds';
+import { getActiveWarnings, registerWarningFeedClient } from './index';
+
+const SAMPLES = import.meta.glob<string>('./samples/*.xml', { query: '?raw', import: 'default', eager: true });
+
+const sample = (name: string): string => SAMPLES[`./samples/${name}.xml`];
+
+describe('parseCapAlert', () => {
+  it('parses every bundled sample', () => {
+    const files = Object.keys(SAMPLES);
+    expect(files.length).toBeGreaterThan(0);
+    files.forEach(file => {
+      const alert = parseCapAlert(SAMPLES[file]);
+      expect(alert.identifier).not.toBe('');
+      expect(alert.warnings.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('keeps the English info block over Norwegian and Swedish ones', () => {
+    const met = parseCapAlert(sample('met-snow-dovrefjell'));
+    expect(met.warnings).toHaveLength(1);
+    expect(met.warnings[0].language).toBe('en-GB');
+    expect(met.warnings[0].headline).toBe('Snow, orange level, Dovrefjell');
+
+    const smhi = parseCapAlert(sample('smhi-wind-west-coast'));
+    expect(smhi.warnings).toHaveLength(1);
+    expect(smhi.warnings[0].language).toBe('en-GB');
+    expect(smhi.warnings[0].event).toBe('Wind');
+  });
+
+  it('parses polygon and circle areas', () => {
+    const [warning] = parseCapAlert(sample('met-snow-dovrefjell')).warnings;
+    const [polygonArea, circleArea] = warning.areas;
+
+    // The closing point of the polygon is dropped
+    expect(polygonArea.description).toBe('Dovrefjell');
+    expect(polygonArea.polygons).toEqual([[[62.05, 9.05], [62.05, 9.95], [62.55, 9.95], [62.55, 9.05]]]);
+
+    // A 15 km circle around Hjerkinn becomes a polygon of that radius
+    expect(circleArea.description).toBe('Hjerkinn and surroundings');
+    expect(circleArea.polygons).toHaveLength(1);
+    expect(circleArea.polygons[0].length).toBeGreaterThanOrEqual(8);
+    circleArea.polygons[0].forEach(([lat]) => {
+      expect(Math.abs(lat - 62.22)).toBeLessThanOrEqual(15 / 111.32 + 1e-9);
+    });
+  });
+
+  it('derives the awareness level from severity when the alert has none', () => {
+    const [fog] = parseCapAlert(sample('meteoalarm-fog-test')).warnings;
+    expect(fog.severity).toBe('Minor');
+    expect(fog.level).toBe('yellow');
+
+    const withoutLevel = (severity: string) => sample('met-snow-dovrefjell')
+      .replace(/<parameter>[\s\S]*?<\/parameter>/g, '')
+      .replace(/<severity>Severe<\/severity>/g, `<severity>${severity}</severity>`);
+    expect(parseCapAlert(withoutLevel('Extreme')).warnings[0].level).toBe('red');
+    expect(parseCapAlert(withoutLevel('Severe')).warnings[0].level).toBe('orange');
+    expect(parseCapAlert(withoutLevel('Moderate')).warnings[0].level).toBe('yellow');
+  });
+
+  it('reads the alerts an update references', () => {
+    const update = parseCapAlert(sample('smhi-wind-west-coast-update'));
+    expect(update.msgType).toBe('Update');
+    expect(update.references).toEqual(['urn:oid:2.49.0.0.752.0.SE.241112.wind.1']);
+  });
+
+  it('rejects documents that are not CAP alerts', () => {
+    expect(() => parseCapAlert('<feed xmlns="http://www.w3.org/2005/Atom"></feed>')).toThrow('Not a CAP alert document');
+  });
+});
+
+describe('getActiveWarnings', () => {
+  it('replaces updated alerts and drops test messages', async () => {
+    registerWarningFeedClient(sampleWarningClient);
+    const warnings = await getActiveWarnings();
+    const alertIds = warnings.map(warning => warning.alertId);
+
+    // The update replaces the original yellow wind warning
+    expect(alertIds).toContain('urn:oid:2.49.0.0.752.0.SE.241112.wind.2');
+    expect(alertIds).not.toContain('urn:oid:2.49.0.0.752.0.SE.241112.wind.1');
+    expect(warnings.find(warning => warning.event === 'Wind')?.level).toBe('orange');
+
+    // MeteoAlarm's <status>Test</status> message is not a real warning
+    expect(alertIds).not.toContain('2.49.0.0.208.0.DK.241112.fog.test');
+
+    expect(alertIds).toContain('2.49.0.1.578.0.20241112.snow.dovre');
+  });
+});
@@ -0,0 +1,171 @@
+import type { Polygon } from '../routeGeometry';
+
+// Parser for Common Alerting Protocol (CAP 1.2) documents, the format used by
+// SMHI, MET Norway and the MeteoAlarm feeds for official weather warnings.
+
+export type CapSeverity = 'Extreme' | 'Severe' | 'Moderate' | 'Minor' | 'Unknown';
+
+// MeteoAlarm awareness colours; warnings without one get it from their severity
+export type WarningLevel = 'yellow' | 'orange' | 'red';
+
+export interface CapArea {
+  description: string;
+  polygons: Polygon[]; // Circles are converted to polygons
+}
+
+// One <info> block of an alert: a warning for one event in one language
+export interface CapWarning {
+  id: string; // Alert identifier plus the info block's position
+  alertId: string;
+  senderName: string;
+  event: string;
+  headline: string;
+  description: string;
+  instruction: string;
+  language: string;
+  severity: CapSeverity;
+  level: WarningLevel;
+  onset: Date; // Start of the warning (onset, else effective, else sent)
+  expires: Date | null;
+  web: string | null;
+  areas: CapArea[];
+}
+
+export interface CapAlert {
+  identifier: string;
+  sender: string;
+  sent: Date;
+  status: string; // Actual, Exercise, System, Test or Draft
+  msgType: string; // Alert, Update, Cancel, Ack or Error
+  references: string[]; // Identifiers of earlier alerts this one updates or cancels
+  warnings: CapWarning[];
+}
+
+const CIRCLE_SEGMENTS = 16;
+const KM_PER_DEGREE_LAT = 111.32;
+
+const SEVERITY_LEVELS: Record<CapSeverity, WarningLevel> = {
+  Extreme: 'red',
+  Severe: 'orange',
+  Moderate: 'yellow',
+  Minor: 'yellow',
+  Unknown: 'yellow',
+};
+
+// CAP elements may or may not carry a namespace prefix, so match on local names
+const children = (parent: Element, name: string): Element[] => {
+  return Array.from(parent.children).filter(child => child.localName === name);
+};
+
+const text = (parent: Element, name: string): string => {
+  return children(parent, name)[0]?.textContent?.trim() ?? '';
+};
+
+const parseDate = (value: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// "lat,lon lat,lon ..." with the first point repeated at the end
+const parsePolygon = (value: string): Polygon | null => {
+  const points = value.trim().split(/\s+/).map(pair => pair.split(',').map(Number) as [number, number]);
+  if (points.some(point => point.length !== 2 || point.some(n => !Number.isFinite(n)))) return null;
+  const [first, last] = [points[0], points[points.length - 1]];
+  if (points.length > 1 && first[0] === last[0] && first[1] === last[1]) points.pop();
+  return points.length >= 3 ? points : null;
+};
+
+// "lat,lon radius" with the radius in km
+const parseCircle = (value: string): Polygon | null => {
+  const [center, rawRadius] = value.trim().split(/\s+/);
+  const [lat, lon] = (center ?? '').split(',').map(Number);
+  const radiusKm = Number(rawRadius);
+  if (![lat, lon, radiusKm].every(Number.isFinite) || radiusKm <= 0) return null;
+
+  const latRadius = radiusKm / KM_PER_DEGREE_LAT;
+  const lonRadius = radiusKm / (KM_PER_DEGREE_LAT * Math.cos(lat * Math.PI / 180));
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+    const angle = (2 * Math.PI * i) / CIRCLE_SEGMENTS;
+    return [lat + latRadius * Math.sin(angle), lon + lonRadius * Math.cos(angle)] as [number, number];
+  });
+};
+
+// MeteoAlarm parameter value such as "3; orange; Severe"
+const parseAwarenessLevel = (info: Element): WarningLevel | null => {
+  const parameter = children(info, 'parameter').find(element => text(element, 'valueName') === 'awareness_level');
+  const colour = parameter ? text(parameter, 'value').split(';')[1]?.trim().toLowerCase() : undefined;
+  return colour === 'yellow' || colour === 'orange' || colour === 'red' ? colour : null;
+};
+
+// CAP's default when an info block names no language
+const languageOf = (info: Element): string => text(info, 'language') || 'en-US';
+
+const parseSeverity = (value: string): CapSeverity => {
+  return (['Extreme', 'Severe', 'Moderate', 'Minor'] as const).find(severity => severity === value) ?? 'Unknown';
+};
+
+/**
+ * Parse a CAP 1.2 alert document. Only info blocks in the preferred language are
+ * kept when the alert has any; otherwise all of them are.
+ */
+export const parseCapAlert = (xml: string, preferredLanguage = 'en'): CapAlert => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'alert') {
+    throw new Error('Not a CAP alert document');
+  }
+
+  const identifier = text(root, 'identifier');
+  const sent = parseDate(text(root, 'sent'));
+  if (!identifier || !sent) {
+    throw new Error('CAP alert is missing its identifier or sent time');
+  }
+
+  // Space-separated "sender,identifier,sent" triples
+  const references = text(root, 'references')
+    .split(/\s+/)
+    .map(reference => reference.split(',')[1])
+    .filter((id): id is string => !!id);
+
+  const infos = children(root, 'info');
+  const preferred = infos.filter(info => languageOf(info).toLowerCase().startsWith(preferredLanguage));
+
+  const warnings = (preferred.length > 0 ? preferred : infos).map((info, index): CapWarning => {
+    const severity = parseSeverity(text(info, 'severity'));
+    const areas = children(info, 'area').map(area => ({
+      description: text(area, 'areaDesc'),
+      polygons: [
+        ...children(area, 'polygon').map(element => parsePolygon(element.textContent ?? '')),
+        ...children(area, 'circle').map(element => parseCircle(element.textContent ?? '')),
+      ].filter((polygon): polygon is Polygon => polygon !== null),
+    }));
+
+    return {
+      id: `${identifier}#${index}`,
+      alertId: identifier,
+      senderName: text(info, 'senderName') || text(root, 'sender'),
+      event: text(info, 'event'),
+      headline: text(info, 'headline') || text(info, 'event'),
+      description: text(info, 'description'),
+      instruction: text(info, 'instruction'),
+      language: languageOf(info),
+      severity,
+      level: parseAwarenessLevel(info) ?? SEVERITY_LEVELS[severity],
+      onset: parseDate(text(info, 'onset')) ?? parseDate(text(info, 'effective')) ?? sent,
+      expires: parseDate(text(info, 'expires')),
+      web: text(info, 'web') || null,
+      areas,
+    };
+  });
+
+  return {
+    identifier,
+    sender: text(root, 'sender'),
+    sent,
+    status: text(root, 'status'),
+    msgType: text(root, 'msgType'),
+    references,
+    warnings,
+  };
+};
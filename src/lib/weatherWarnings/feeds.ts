@@ -0,0 +1,96 @@
+import { parseCapAlert, type CapAlert } from './cap';
+
+/**
+ * A source of official warnings. Clients fetch whatever their feed serves and
+ * return the alerts parsed to CapAlert.
+ */
+export interface WarningFeedClient {
+  id: string;
+  name: string;
+  fetchAlerts(): Promise<CapAlert[]>;
+}
+
+// Keeps a large Atom feed from fanning out into hundreds of requests
+const MAX_FEED_ENTRIES = 100;
+
+const fetchText = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Warning feed request failed: ${url}`);
+  }
+
+  return response.text();
+};
+
+// Links to CAP documents in an Atom feed (MeteoAlarm style), or null when the
+// document is not a feed
+const getCapLinks = (xml: string, baseUrl: string): string[] | null => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.documentElement.localName !== 'feed') return null;
+
+  return Array.from(doc.getElementsByTagNameNS('*', 'entry'))
+    .map(entry => Array.from(entry.getElementsByTagNameNS('*', 'link'))
+      .find(link => link.getAttribute('type') === 'application/cap+xml')
+      ?.getAttribute('href'))
+    .filter((href): href is string => !!href)
+    .slice(0, MAX_FEED_ENTRIES)
+    .map(href => new URL(href, baseUrl).toString());
+};
+
+/**
+ * Client for a URL serving either a single CAP document or an Atom feed whose
+ * entries link to CAP documents. Entries that fail to load or parse are skipped.
+ */
+export const createCapFeedClient = (url: string, name: string = new URL(url).hostname): WarningFeedClient => ({
+  id: url,
+  name,
+  async fetchAlerts() {
+    const xml = await fetchText(url);
+    const links = getCapLinks(xml, url);
+    if (!links) return [parseCapAlert(xml)];
+
+    const alerts = await Promise.all(links.map(async link => {
+      try {
+        return parseCapAlert(await fetchText(link));
+      } catch (err) {
+        console.error(`Failed to load CAP alert ${link}:`, err);
+        return null;
+      }
+    }));
+    return alerts.filter((alert): alert is CapAlert => alert !== null);
+  }
+});
+
+// Bundled sample alerts, loaded only when the sample client is used
+const SAMPLE_FILES = import.meta.glob<string>('./samples/*.xml', { query: '?raw', import: 'default' });
+
+/**
+ * Client serving the bundled sample CAP files, for trying the warning display
+ * without a live feed. The samples are dated in the past, so every alert is moved
+ * by the same amount to make the earliest warning start at the next full hour.
+ */
+export const sampleWarningClient: WarningFeedClient = {
+  id: 'samples',
+  name: 'Sample warnings',
+  async fetchAlerts() {
+    const documents = await Promise.all(Object.values(SAMPLE_FILES).map(load => load()));
+    const alerts = documents.map(xml => parseCapAlert(xml));
+
+    const earliestOnset = Math.min(...alerts.flatMap(alert => alert.warnings.map(warning => warning.onset.getTime())));
+    const nextHour = new Date();
+    nextHour.setMinutes(0, 0, 0);
+    nextHour.setHours(nextHour.getHours() + 1);
+    const shift = (date: Date) => new Date(date.getTime() + nextHour.getTime() - earliestOnset);
+
+    return alerts.map(alert => ({
+      ...alert,
+      sent: shift(alert.sent),
+      warnings: alert.warnings.map(warning => ({
+        ...warning,
+        onset: shift(warning.onset),
+        expires: warning.expires && shift(warning.expires)
+      }))
+    }));
+  }
+};
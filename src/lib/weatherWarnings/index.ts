@@ -0,0 +1,162 @@
+import type { RouteData, Waypoint } from '../apiUtils';
+import { getBoundingBox, getClockTimeAtDriveSeconds, isInPolygon } from '../routeGeometry';
+import type { CapAlert, CapWarning, WarningLevel } from './cap';
+import { createCapFeedClient, sampleWarningClient, type WarningFeedClient } from './feeds';
+
+export type { CapAlert, CapWarning, WarningLevel } from './cap';
+export type { WarningFeedClient } from './feeds';
+
+// A warning that is in force somewhere along the route while the trip passes through
+export interface RouteWarning {
+  warning: CapWarning;
+  waypointIndices: number[]; // Waypoints inside the warned area while the warning is in force
+  enters: Date; // First time the route is inside the warned area during the warning
+  leaves: Date; // Last such time
+}
+
+// Warnings change far less often than forecasts; refetch at most every 10 minutes
+const FEED_TTL_MS = 10 * 60 * 1000;
+
+// VITE_WARNING_FEEDS: comma-separated CAP or Atom feed URLs, or "samples" for the bundled samples
+const configuredFeeds = (import.meta.env.VITE_WARNING_FEEDS ?? '')
+  .split(',')
+  .map((value: string) => value.trim())
+  .filter(Boolean);
+
+// A malformed feed URL is skipped, so one bad setting cannot break the app on load
+const clients: WarningFeedClient[] = configuredFeeds.flatMap((value: string) => {
+  if (value === 'samples') return [sampleWarningClient];
+  try {
+    return [createCapFeedClient(value)];
+  } catch (err) {
+    console.error(`Ignoring invalid warning feed URL "${value}":`, err);
+    return [];
+  }
+});
+
+let cachedAlerts: { fetchedAt: number; alerts: Promise<CapAlert[]> } | null = null;
+
+/**
+ * Add a warning feed client (replacing one with the same id)
+ */
+export const registerWarningFeedClient = (client: WarningFeedClient) => {
+  const index = clients.findIndex(existing => existing.id === client.id);
+  if (index === -1) {
+    clients.push(client);
+  } else {
+    clients[index] = client;
+  }
+  cachedAlerts = null;
+};
+
+export const getWarningFeedClients = (): WarningFeedClient[] => [...clients];
+
+// Alerts from every feed; a failing feed is logged and contributes nothing
+const fetchAllAlerts = async (): Promise<CapAlert[]> => {
+  const results = await Promise.all(clients.map(async client => {
+    try {
+      return await client.fetchAlerts();
+    } catch (err) {
+      console.error(`Failed to fetch warnings from ${client.name}:`, err);
+      return [];
+    }
+  }));
+  return results.flat();
+};
+
+/**
+ * Warnings currently issued: actual (not test or exercise) alerts that have not
+ * been cancelled or replaced by a later update
+ */
+export const getActiveWarnings = async (): Promise<CapWarning[]> => {
+  const now = Date.now();
+  if (!cachedAlerts || now - cachedAlerts.fetchedAt > FEED_TTL_MS) {
+    const alerts = fetchAllAlerts();
+    cachedAlerts = { fetchedAt: now, alerts };
+  }
+  const alerts = await cachedAlerts.alerts;
+
+  const superseded = new Set(alerts.flatMap(alert => alert.references));
+  return alerts
+    .filter(alert => alert.status === 'Actual' && alert.msgType !== 'Cancel' && !superseded.has(alert.identifier))
+    .flatMap(alert => alert.warnings)
+    .filter(warning => warning.expires === null || warning.expires.getTime() > now);
+};
+
+const isInForce = (warning: CapWarning, time: number): boolean => {
+  return warning.onset.getTime() <= time && (warning.expires === null || time < warning.expires.getTime());
+};
+
+// Whether a point lies in any of the warning's areas (bounding boxes checked first)
+const createAreaTest = (warning: CapWarning) => {
+  const polygons = warning.areas.flatMap(area => area.polygons).map(polygon => ({ polygon, box: getBoundingBox(polygon) }));
+  return (lat: number, lon: number) => polygons.some(({ polygon, box }) =>
+    lat >= box.minLat && lat <= box.maxLat && lon >= box.minLon && lon <= box.maxLon &&
+    isInPolygon(lat, lon, polygon)
+  );
+};
+
+/**
+ * Warnings whose area the route passes through while they are in force, in the
+ * order the trip reaches them
+ */
+export const matchRouteWarnings = (
+  warnings: CapWarning[],
+  route: RouteData,
+  waypoints: Waypoint[]
+): RouteWarning[] => {
+  if (waypoints.length === 0) return [];
+  const clockTime = (driveSeconds: number) => getClockTimeAtDriveSeconds(waypoints, driveSeconds);
+
+  const matches: RouteWarning[] = [];
+  warnings.forEach(warning => {
+    const isInArea = createAreaTest(warning);
+    const times = route.geometry
+      .map(([lat, lon], index) => (isInArea(lat, lon) ? clockTime(route.timeline.cumulativeDurations[index]) : null))
+      .filter((time): time is number => time !== null && isInForce(warning, time));
+    const waypointIndices = waypoints
+      .map((waypoint, index) => ({ waypoint, index }))
+      .filter(({ waypoint }) => isInArea(waypoint.lat, waypoint.lon) && isInForce(warning, waypoint.arrivalTime.getTime()))
+      .map(({ index }) => index);
+    waypointIndices.forEach(index => times.push(waypoints[index].arrivalTime.getTime()));
+    if (times.length === 0) return;
+
+    // One pass: a route can have far more points than Math.min accepts as arguments
+    const enters = times.reduce((earliest, time) => Math.min(earliest, time), Infinity);
+    const leaves = times.reduce((latest, time) => Math.max(latest, time), -Infinity);
+    matches.push({
+      warning,
+      waypointIndices,
+      enters: new Date(enters),
+      leaves: new Date(leaves)
+    });
+  });
+
+  return matches.sort((a, b) => a.enters.getTime() - b.enters.getTime());
+};
+
+/**
+ * Official warnings affecting a planned route. Returns an empty list when no
+ * feed is configured or none could be reached.
+ */
+export const findRouteWarnings = async (route: RouteData, waypoints: Waypoint[]): Promise<RouteWarning[]> => {
+  if (clients.length === 0) return [];
+  return matchRouteWarnings(await getActiveWarnings(), route, waypoints);
+};
+
+const LEVEL_ORDER: Record<WarningLevel, number> = { yellow: 1, orange: 2, red: 3 };
+
+/**
+ * Highest warning level among the given warnings, or null when there are none
+ */
+export const getHighestWarningLevel = (warnings: RouteWarning[]): WarningLevel | null => {
+  return warnings.reduce<WarningLevel | null>((highest, { warning }) =>
+    highest === null || LEVEL_ORDER[warning.level] > LEVEL_ORDER[highest] ? warning.level : highest,
+  null);
+};
+
+export const WARNING_LEVEL_COLORS: Record<WarningLevel, string> = {
+  yellow: '#facc15',
+  orange: '#f97316',
+  red: '#dc2626',
+};
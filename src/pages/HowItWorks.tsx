@@ -82,7 +82,8 @@ const HowItWorks = () => {
             <div className="p-4 rounded-lg border border-border bg-card space-y-3">
               <p className="text-muted-foreground">
                 <strong className="text-foreground">Weather Data:</strong> We combine data from SMHI
-                (Swedish Meteorological and Hydrological Institute) and Open-Meteo to provide accurate
+                (Swedish Meteorological and Hydrological Institute), MET Norway (Norwegian Meteorological
+                Institute) and Open-Meteo to provide accurate
                 forecasts across different regions.
               </p>
               <p className="text-muted-foreground">
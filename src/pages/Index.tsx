@@ -1,17 +1,30 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import logo from '@/assets/logo.png';
 import { RouteInput } from '@/components/RouteInput';
 import { RouteSummary } from '@/components/RouteSummary';
 import { RouteMap } from '@/components/RouteMap';
+import { RouteAlternativesTable } from '@/components/RouteAlternativesTable';
 import { WeatherTimeline } from '@/components/WeatherTimeline';
 import { WeatherSummary } from '@/components/WeatherSummary';
 import { WeatherComparisonTable } from '@/components/WeatherComparisonTable';
+import { ElevationProfile } from '@/components/ElevationProfile';
 import { ErrorMessage } from '@/components/ErrorMessage';
+import { PlaceChooser } from '@/components/PlaceChooser';
 import { AdUnit } from '@/components/AdUnit';
 import { LoadingSplash } from '@/components/LoadingSplash';
 import Footer from '@/components/Footer';
-import { geocodeLocation, getRoute, calculateWaypoints, getWeather, type Waypoint, type WeatherData, type RouteData } from '@/lib/apiUtils';
-import { calculateTripAverageScore } from '@/lib/drivingScore';
+import { getRoutes, type Waypoint, type WeatherData, type RouteData, type PlaceInput } from '@/lib/apiUtils';
+import { addRecentPlaces } from '@/lib/savedTrips';
+import { placeFromPoint, resolvePlaces, type CandidateChooser, type MapPickTarget, type PickedPlace, type RankedCandidate } from '@/lib/placeResolver';
+import { tripFromSearchParams, tripToSearchParams, type TripRequest } from '@/lib/tripUrl';
+import { fetchWeatherForWaypoints, planRouteWeather, type RoutePlan } from '@/lib/tripPlanner';
+import type { EnsembleSpread } from '@/lib/ensemble';
+import type { RouteWarning } from '@/lib/weatherWarnings';
+import type { RouteIncident } from '@/lib/incidents';
+import type { ElevationPoint } from '@/lib/elevation';
+import type { GlareSegment } from '@/lib/glare';
+import { getDepartureCandidates, scanDepartures, type DepartureCandidate } from '@/lib/departureScan';
 const Index = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStage, setLoadingStage] = useState<'idle' | 'route' | 'weather' | 'preparing'>('idle');
@@ -21,125 +34,199 @@ const Index = () => {
   });
   const [error, setError] = useState<string | null>(null);
   const [routeData, setRouteData] = useState<RouteData | null>(null);
+  const [routePlans, setRoutePlans] = useState<RoutePlan[]>([]);
+  const [selectedRouteIndex, setSelectedRouteIndex] = useState(0);
   const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
   const [weatherData, setWeatherData] = useState<Map<number, WeatherData | null>>(new Map());
   const [weatherDataOffset, setWeatherDataOffset] = useState<Map<number, WeatherData | null>>(new Map());
   const [weatherDataOffset3h, setWeatherDataOffset3h] = useState<Map<number, WeatherData | null>>(new Map());
+  const [ensembleData, setEnsembleData] = useState<Map<number, EnsembleSpread | null>>(new Map());
+  const [routeWarnings, setRouteWarnings] = useState<RouteWarning[]>([]);
+  const [routeIncidents, setRouteIncidents] = useState<RouteIncident[]>([]);
+  const [elevationProfile, setElevationProfile] = useState<ElevationPoint[]>([]);
+  const [routeGlare, setRouteGlare] = useState<GlareSegment[]>([]);
   const [isLoading3hOffset, setIsLoading3hOffset] = useState(false);
+  const [departureScanResults, setDepartureScanResults] = useState<DepartureCandidate[] | null>(null);
+  const [isScanningDepartures, setIsScanningDepartures] = useState(false);
+  const [departureScanProgress, setDepartureScanProgress] = useState({
+    current: 0,
+    total: 0
+  });
   const [loadingStates, setLoadingStates] = useState<Map<number, boolean>>(new Map());
   const [fromName, setFromName] = useState('');
   const [toName, setToName] = useState('');
+  const [viaNames, setViaNames] = useState<string[]>([]);
   const [departureTime, setDepartureTime] = useState<Date | null>(null);
+  const [restoredTrip, setRestoredTrip] = useState<TripRequest | null>(null);
+  const [isPickingOnMap, setIsPickingOnMap] = useState(false);
+  const [pickedPlace, setPickedPlace] = useState<PickedPlace | null>(null);
+  const [placeChoice, setPlaceChoice] = useState<{
+    place: PlaceInput;
+    candidates: RankedCandidate[];
+  } | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lastPlannedKeyRef = useRef<string | null>(null);
+  const planIdRef = useRef(0);
+  // Resolves the open place chooser's promise, so a waiting plan never hangs
+  const resolvePlaceChoiceRef = useRef<((candidate: RankedCandidate | null) => void) | null>(null);
+  // Bumped whenever the shown route changes, so late offset fetches for another route are dropped
+  const selectionIdRef = useRef(0);
+  // Bumped for every departure scan and route change, so results of an outdated scan are dropped
+  const scanIdRef = useRef(0);
   const resultsRef = useRef<HTMLDivElement>(null);
-  const handleSubmit = useCallback(async (from: string, to: string, departure: Date) => {
-    setIsLoading(true);
-    setLoadingStage('route');
-    setWeatherProgress({
-      current: 0,
-      total: 0
-    });
+  const alternativeGeometries = useMemo(() => routePlans.map(plan => plan.route.geometry), [routePlans]);
+  // Show a route plan as the current result and compare it with leaving an hour later
+  const applyRoutePlan = useCallback(async (plan: RoutePlan) => {
+    const selectionId = ++selectionIdRef.current;
+    scanIdRef.current++;
+    setRouteData(plan.route);
+    setWaypoints(plan.waypoints);
+    setWeatherData(plan.weatherData);
+    setEnsembleData(plan.ensembleData ?? new Map());
+    setRouteWarnings(plan.warnings);
+    setRouteIncidents(plan.incidents);
+    setElevationProfile(plan.elevationProfile);
+    setRouteGlare(plan.glare);
+    setLoadingStates(new Map(plan.waypoints.map((_, index) => [index, false])));
+    setWeatherDataOffset(new Map());
+    setWeatherDataOffset3h(new Map());
+    setIsLoading3hOffset(false);
+    setDepartureScanResults(null);
+    setIsScanningDepartures(false);
+
+    // Only fetch offset weather if conditions aren't already excellent (score > 90)
+    if (plan.averageScore === null || plan.averageScore <= 90) {
+      const offsetWeather = await fetchWeatherForWaypoints(plan.waypoints, 60 * 60 * 1000);
+      if (selectionId !== selectionIdRef.current) return;
+      setWeatherDataOffset(offsetWeather);
+    }
+  }, []);
+  const clearResults = useCallback(() => {
+    selectionIdRef.current++;
+    scanIdRef.current++;
     setError(null);
     setRouteData(null);
+    setRoutePlans([]);
+    setSelectedRouteIndex(0);
     setWaypoints([]);
     setWeatherData(new Map());
+    setEnsembleData(new Map());
+    setRouteWarnings([]);
+    setRouteIncidents([]);
+    setElevationProfile([]);
+    setRouteGlare([]);
     setWeatherDataOffset(new Map());
     setWeatherDataOffset3h(new Map());
     setIsLoading3hOffset(false);
+    setDepartureScanResults(null);
+    setIsScanningDepartures(false);
     setLoadingStates(new Map());
+    setDepartureTime(null);
+  }, []);
+  // Name a point picked on the map and hand it to the route form
+  const handlePickPoint = useCallback(async (target: MapPickTarget, lat: number, lon: number) => {
+    setPickedPlace({
+      target,
+      place: await placeFromPoint(lat, lon)
+    });
+  }, []);
+  const emptyWeatherData = useMemo(() => new Map<number, WeatherData | null>(), []);
+  // Show the "Did you mean…" chooser; planning waits until the user picks a place.
+  // A chooser that is still open is dismissed first, as if cancelled.
+  const choosePlace = useCallback<CandidateChooser>((place, candidates) => {
+    resolvePlaceChoiceRef.current?.(null);
+    return new Promise(resolve => {
+      resolvePlaceChoiceRef.current = resolve;
+      setPlaceChoice({
+        place,
+        candidates
+      });
+    });
+  }, []);
+  const handlePlaceChosen = (candidate: RankedCandidate | null) => {
+    resolvePlaceChoiceRef.current?.(candidate);
+    resolvePlaceChoiceRef.current = null;
+    setPlaceChoice(null);
+  };
+  // Release a plan still waiting on the chooser when the page goes away
+  useEffect(() => () => {
+    resolvePlaceChoiceRef.current?.(null);
+    resolvePlaceChoiceRef.current = null;
+  }, []);
+  const handleSubmit = useCallback(async (trip: TripRequest) => {
+    const {
+      from,
+      to,
+      departureTime: departure,
+      vias,
+      options
+    } = trip;
+    // Newer plans (e.g. Back/Forward while loading) supersede this one
+    const planId = ++planIdRef.current;
+    lastPlannedKeyRef.current = tripToSearchParams(trip).toString();
+    clearResults();
+    setIsLoading(true);
+    setLoadingStage('route');
+    setWeatherProgress({
+      current: 0,
+      total: 0
+    });
     setDepartureTime(departure);
     try {
-      // Geocode both locations
-      const [fromCoords, toCoords] = await Promise.all([geocodeLocation(from), geocodeLocation(to)]);
-      setFromName(from);
-      setToName(to);
-
-      // Get route
-      const route = await getRoute(fromCoords, toCoords);
-      setRouteData(route);
-
-      // Calculate waypoints (with reverse geocoding for location names)
-      const calculatedWaypoints = await calculateWaypoints(route, departure, from, to);
-      setWaypoints(calculatedWaypoints);
+      // Geocode both endpoints and any via-points (empty via fields are ignored);
+      // places with known coordinates skip the lookup, ambiguous names ask the user
+      const stops = vias.filter(via => via.name.trim() !== '');
+      const resolved = await resolvePlaces(from, to, stops, choosePlace);
+      if (planId !== planIdRef.current) return;
+      if (!resolved) {
+        // Cancelled in the chooser, or a place could not be resolved
+        setLoadingStage('idle');
+        setIsLoading(false);
+        setDepartureTime(null);
+        return;
+      }
+      const [fromCoords, toCoords, ...viaCoords] = resolved;
+      setFromName(from.name);
+      setToName(to.name);
+      setViaNames(stops.map(via => via.name));
 
-      // Initialize loading states
-      const initialLoadingStates = new Map<number, boolean>();
-      calculatedWaypoints.forEach((_, index) => {
-        initialLoadingStates.set(index, false); // Will be set to loaded after weather fetch
+      // Keep the resolved coordinates in the form (so the trip can be saved without
+      // geocoding again) and remember the places for the location inputs
+      setRestoredTrip({
+        ...trip,
+        from: { name: from.name, coordinates: fromCoords },
+        to: { name: to.name, coordinates: toCoords },
+        vias: stops.map((via, index) => ({ ...via, coordinates: viaCoords[index] }))
       });
-      setLoadingStates(initialLoadingStates);
+      addRecentPlaces([from, to, ...stops].map((place, index) => ({
+        name: place.name,
+        coordinates: [fromCoords, toCoords, ...viaCoords][index]
+      })));
+
+      // Get the recommended route and any alternatives
+      const routes = await getRoutes(fromCoords, toCoords, viaCoords);
+      if (planId !== planIdRef.current) return;
 
       // Switch to weather fetching stage
       setLoadingStage('weather');
-      setWeatherProgress({
-        current: 0,
-        total: calculatedWaypoints.length
-      });
-
-      // Fetch all weather data in parallel and wait for completion
-      const weatherResults = await Promise.all(calculatedWaypoints.map(async (waypoint, index) => {
-        try {
-          const weather = await getWeather(waypoint.lat, waypoint.lon, waypoint.arrivalTime);
-          setWeatherProgress(prev => ({
-            ...prev,
-            current: prev.current + 1
-          }));
-          return {
-            index,
-            weather,
-            error: null
-          };
-        } catch (err) {
-          console.error(`Failed to fetch weather for waypoint ${index}:`, err);
-          setWeatherProgress(prev => ({
-            ...prev,
-            current: prev.current + 1
-          }));
-          return {
-            index,
-            weather: null,
-            error: err
-          };
-        }
-      }));
-
-      // Build the weather data map from results
-      const newWeatherData = new Map<number, WeatherData | null>();
-      weatherResults.forEach(result => {
-        newWeatherData.set(result.index, result.weather);
-      });
-      setWeatherData(newWeatherData);
-
-      // Calculate trip score to determine if we need alternative time comparisons
-      const tripScore = calculateTripAverageScore(newWeatherData);
 
-      // Only fetch offset weather if conditions aren't already excellent (score > 90)
-      if (tripScore === null || tripScore <= 90) {
-        // Fetch offset weather data in parallel (for comparison)
-        const offsetResults = await Promise.all(calculatedWaypoints.map(async (waypoint, index) => {
-          try {
-            const offsetTime = new Date(waypoint.arrivalTime.getTime() + 60 * 60 * 1000);
-            const weatherOffset = await getWeather(waypoint.lat, waypoint.lon, offsetTime);
-            return {
-              index,
-              weather: weatherOffset
-            };
-          } catch (err) {
-            console.error(`Failed to fetch offset weather for waypoint ${index}:`, err);
-            return {
-              index,
-              weather: null
-            };
-          }
-        }));
-
-        // Build the offset weather data map
-        const newWeatherDataOffset = new Map<number, WeatherData | null>();
-        offsetResults.forEach(result => {
-          newWeatherDataOffset.set(result.index, result.weather);
-        });
-        setWeatherDataOffset(newWeatherDataOffset);
+      // Calculate waypoints (with reverse geocoding for location names) and fetch
+      // their weather for every route, so the alternatives can be compared
+      const waypointOptions = {
+        ...options,
+        vias: stops
+      };
+      const plans: RoutePlan[] = [];
+      for (const route of routes) {
+        plans.push(await planRouteWeather(route, departure, from.name, to.name, waypointOptions, (current, total) => setWeatherProgress({
+          current,
+          total
+        })));
       }
-      // If score > 90, skip offset fetching - conditions are already excellent!
+      if (planId !== planIdRef.current) return;
+      setRoutePlans(plans);
+      await applyRoutePlan(plans[0]);
+      if (planId !== planIdRef.current) return;
 
       // Preparing stage - brief transition
       setLoadingStage('preparing');
@@ -163,26 +250,88 @@ const Index = () => {
         }
       }, 100);
     } catch (err) {
+      if (planId !== planIdRef.current) return;
       setLoadingStage('idle');
       setIsLoading(false);
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     }
-  }, []);
+  }, [applyRoutePlan, clearResults, choosePlace]);
+
+  // Planning goes through the URL, so every planned trip is a shareable link and
+  // gets its own history entry for Back/Forward
+  const handleFormSubmit = useCallback((trip: TripRequest) => {
+    const params = tripToSearchParams(trip);
+    if (params.toString() === searchParams.toString()) {
+      // Same trip as the current URL: plan again with fresh forecasts
+      handleSubmit(trip);
+    } else {
+      setSearchParams(params);
+    }
+  }, [searchParams, setSearchParams, handleSubmit]);
+
+  // Plan whenever the URL describes a trip we have not planned yet (shared link,
+  // form submit or history navigation); a URL without a trip clears the results
+  useEffect(() => {
+    const key = searchParams.toString();
+    if (key === lastPlannedKeyRef.current) return;
+    lastPlannedKeyRef.current = key;
+    const trip = tripFromSearchParams(searchParams);
+    setRestoredTrip(trip);
+    if (trip) {
+      handleSubmit(trip);
+    } else {
+      planIdRef.current++;
+      clearResults();
+      setIsLoading(false);
+      setLoadingStage('idle');
+    }
+  }, [searchParams, handleSubmit, clearResults]);
+  const handleSelectRoute = useCallback((index: number) => {
+    const plan = routePlans[index];
+    if (!plan) return;
+    setSelectedRouteIndex(index);
+    applyRoutePlan(plan);
+  }, [routePlans, applyRoutePlan]);
   const fetch3hOffsetWeather = useCallback(async (waypointList: Waypoint[]) => {
+    const selectionId = selectionIdRef.current;
     setIsLoading3hOffset(true);
     setWeatherDataOffset3h(new Map());
-    await Promise.all(waypointList.map(async (waypoint, index) => {
-      try {
-        const offsetTime = new Date(waypoint.arrivalTime.getTime() + 3 * 60 * 60 * 1000);
-        const weather = await getWeather(waypoint.lat, waypoint.lon, offsetTime);
-        setWeatherDataOffset3h(prev => new Map(prev).set(index, weather));
-      } catch (err) {
-        console.error(`Failed to fetch 3h offset weather for waypoint ${index}:`, err);
-        setWeatherDataOffset3h(prev => new Map(prev).set(index, null));
-      }
-    }));
+    // Same pipeline as the plan, so crossings and mountain stretches are scored alike
+    const offsetWeather = await fetchWeatherForWaypoints(waypointList, 3 * 60 * 60 * 1000);
+    if (selectionId !== selectionIdRef.current) return;
+    setWeatherDataOffset3h(offsetWeather);
     setIsLoading3hOffset(false);
   }, []);
+  const handleScanDepartures = useCallback(async (windowStart: Date, windowEnd: Date, stepMinutes: number) => {
+    if (!departureTime || waypoints.length === 0) return;
+    const candidates = getDepartureCandidates(windowStart, windowEnd, stepMinutes);
+    const scanId = ++scanIdRef.current;
+    const isCurrent = () => scanId === scanIdRef.current;
+    setIsScanningDepartures(true);
+    setDepartureScanResults(null);
+    setDepartureScanProgress({
+      current: 0,
+      total: candidates.length
+    });
+    try {
+      const results = await scanDepartures(waypoints, departureTime, candidates, (current, total) => {
+        if (!isCurrent()) return;
+        setDepartureScanProgress({
+          current,
+          total
+        });
+      });
+      if (isCurrent()) {
+        setDepartureScanResults(results);
+      }
+    } catch (err) {
+      console.error('Failed to scan departure times:', err);
+    } finally {
+      if (isCurrent()) {
+        setIsScanningDepartures(false);
+      }
+    }
+  }, [waypoints, departureTime]);
   return <div className="min-h-screen bg-background flex flex-col">
       {/* Header */}
       <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
@@ -201,7 +350,8 @@ const Index = () => {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6 space-y-6 flex-1">
-        <RouteInput onSubmit={handleSubmit} isLoading={isLoading} />
+        <RouteInput onSubmit={handleFormSubmit} isLoading={isLoading} trip={restoredTrip} pickedPlace={pickedPlace} isPickingOnMap={isPickingOnMap} onTogglePickOnMap={() => setIsPickingOnMap(picking => !picking)} />
+        <PlaceChooser place={placeChoice?.place ?? null} candidates={placeChoice?.candidates ?? []} onChoose={handlePlaceChosen} />
         
         {error && <ErrorMessage title="Error" message={error} onRetry={() => setError(null)} />}
         
@@ -210,16 +360,23 @@ const Index = () => {
         
         {/* Results - only show when not loading */}
         {!isLoading && routeData && departureTime && <div ref={resultsRef}>
-            <RouteSummary distance={routeData.distance} duration={routeData.duration} departureTime={departureTime} fromName={fromName} toName={toName} />
+            <RouteSummary distance={routeData.distance} duration={routeData.duration} departureTime={departureTime} arrivalTime={waypoints[waypoints.length - 1]?.arrivalTime} fromName={fromName} toName={toName} viaNames={viaNames} fromCountry={waypoints[0]?.country} toCountry={waypoints[waypoints.length - 1]?.country} />
             
-            <WeatherSummary waypoints={waypoints} weatherData={weatherData} weatherDataOffset={weatherDataOffset} weatherDataOffset3h={weatherDataOffset3h} isLoading3hOffset={isLoading3hOffset} onRequest3hCheck={fetch3hOffsetWeather} loadingStates={loadingStates} isCalculatingRoute={false} />
+            {routePlans.length > 1 && <RouteAlternativesTable plans={routePlans} selectedIndex={selectedRouteIndex} onSelect={handleSelectRoute} />}
             
-            <RouteMap routeGeometry={routeData.geometry} waypoints={waypoints} weatherData={weatherData} />
+            <WeatherSummary key={selectedRouteIndex} waypoints={waypoints} weatherData={weatherData} ensembleData={ensembleData} warnings={routeWarnings} incidents={routeIncidents} weatherDataOffset={weatherDataOffset} weatherDataOffset3h={weatherDataOffset3h} isLoading3hOffset={isLoading3hOffset} onRequest3hCheck={fetch3hOffsetWeather} loadingStates={loadingStates} isCalculatingRoute={false} />
+            
+            <RouteMap routeGeometry={routeData.geometry} waypoints={waypoints} weatherData={weatherData} warnings={routeWarnings} incidents={routeIncidents} ferries={routeData.ferries} glare={routeGlare} alternativeRoutes={alternativeGeometries} selectedRouteIndex={selectedRouteIndex} onSelectRoute={handleSelectRoute} onPickPoint={isPickingOnMap ? handlePickPoint : undefined} />
+            
+            <ElevationProfile profile={elevationProfile} waypoints={waypoints} weatherData={weatherData} />
           </div>}
+
+        {/* Empty map for picking places before a route has been planned */}
+        {!isLoading && !routeData && isPickingOnMap && <RouteMap routeGeometry={[]} waypoints={[]} weatherData={emptyWeatherData} onPickPoint={handlePickPoint} />}
         
-        {!isLoading && waypoints.length > 0 && <WeatherTimeline waypoints={waypoints} weatherData={weatherData} loadingStates={loadingStates} />}
+        {!isLoading && waypoints.length > 0 && <WeatherTimeline waypoints={waypoints} weatherData={weatherData} ensembleData={ensembleData} warnings={routeWarnings} glare={routeGlare} loadingStates={loadingStates} legs={routeData?.legs} ferries={routeData?.ferries} />}
         
-        {!isLoading && waypoints.length > 0 && <WeatherComparisonTable waypoints={waypoints} weatherData={weatherData} weatherDataOffset={weatherDataOffset} weatherDataOffset3h={weatherDataOffset3h} isLoading3hOffset={isLoading3hOffset} />}
+        {!isLoading && waypoints.length > 0 && <WeatherComparisonTable waypoints={waypoints} weatherData={weatherData} weatherDataOffset={weatherDataOffset} weatherDataOffset3h={weatherDataOffset3h} isLoading3hOffset={isLoading3hOffset} departureTime={departureTime} departureScanResults={departureScanResults} isScanningDepartures={isScanningDepartures} departureScanProgress={departureScanProgress} onScanDepartures={handleScanDepartures} />}
       </main>
 
       {/* Ad placements */}
@@ -73,7 +73,7 @@ const Privacy = () => {
                 </p>
                 <ul className="space-y-3">
                   <li>
-                    <strong className="text-foreground">SMHI & Open-Meteo</strong>
+                    <strong className="text-foreground">SMHI, MET Norway & Open-Meteo</strong>
                     <p className="text-muted-foreground text-sm">
                       Weather data providers. Your location coordinates are sent to these services
                       to retrieve weather forecasts.